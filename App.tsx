@@ -1,58 +1,825 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Activity, Box, Camera, Cast, Cpu, Crop, ExternalLink, Gauge, Layers, Mic, ScanLine, Settings, Terminal } from 'lucide-react';
+import RealityMapper, { RealityMapperHandle } from './components/RealityMapper';
+import TerminalOutput from './components/TerminalOutput';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import RenderSettingsPanel from './components/RenderSettingsPanel';
+import CalibrationWizard from './components/CalibrationWizard';
+import MotionPanel from './components/MotionPanel';
+import BackgroundPanel from './components/BackgroundPanel';
+import RegionSelection from './components/RegionSelection';
+import AudioPanel from './components/AudioPanel';
+import AudioLevelMeter from './components/AudioLevelMeter';
+import RecorderControls from './components/RecorderControls';
+import SourcePicker from './components/SourcePicker';
+import { useRecorder } from './hooks/useRecorder';
+import { InputSourceSpec } from './services/inputSources';
+import {
+  CameraPreferences,
+  FRAME_RATES,
+  listCameras,
+  loadCameraPreferences,
+  RESOLUTIONS,
+  ResolutionPreset,
+  saveCameraPreferences
+} from './services/cameraManager';
+import { AuditFrame, AuditSession, createAuditSession } from './services/geminiService';
+import { getProvider } from './services/visionProviders';
+import { getProviderSettings } from './services/providerSettings';
+import { getRenderSettings, importPreset, presetFromHash, PresetExport, subscribeRenderSettings } from './services/renderSettings';
+import {
+  clearCalibration,
+  getCalibrationProfiles,
+  saveCalibration,
+  subscribeCalibrationProfiles
+} from './services/calibrationStore';
+import { addZone, getMotionSettings, subscribeMotionSettings } from './services/motionSettings';
+import { AudioInput, MicrophoneError, MicrophoneErrorKind, startAudioInput } from './services/audioInput';
+import { getAudioMapping, subscribeAudioMapping } from './services/audioSettings';
+import { getGlyphTable, subscribeGlyphSettings } from './services/glyphSettings';
+import { getPerformanceSettings, subscribePerformanceSettings } from './services/performanceSettings';
+import { getSpatialOptions, subscribeSpatialOptions } from './services/spatialSettings';
+import { isPopoutSupported, PopoutKind } from './services/popout';
+import { createConsoleCommands } from './services/consoleCommands';
+import { appendLog, clearLogs, downloadLogs, getLogs, storeSnapshot, subscribeLogs, updateLog } from './services/logStore';
+import { NormalizedRect, regionToRect, ZoneEvent, ZoneKind } from './lib/motionRegions';
+import { flowHeading, flowSpeed } from './lib/opticalFlow';
+import { DEFAULT_PALETTE, PALETTES, PaletteId } from './lib/palettes';
+import { SCAN_SWEEP_MS } from './lib/scanOverlay';
+import { downloadDataUrl, timestampedFilename } from './lib/download';
+import { LogExportFormat } from './lib/logEntries';
+import { MapMode, ViewMode } from './types';
+import type { SceneLayer } from './lib/sceneLayers';
+import type { Detection } from './lib/detections';
 
-import React, { useState, useEffect } from 'react';
-import RealityMapper from './components/RealityMapper';
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Two taps closer than this leave Broadcast mode
+const DOUBLE_TAP_MS = 300;
+const BROADCAST_HINT_MS = 2500;
+// Region flow (cells per analyzed frame) below which zone events give no heading
+const MIN_HEADING_SPEED = 0.2;
+// Asked when a new frame is attached to an audit session without a question
+const ATTACH_QUESTION = 'Here is a new frame of the same view. What changed since the previous one?';
+
+const MICROPHONE_ERROR_COPY: Record<MicrophoneErrorKind, string> = {
+  'permission-denied': 'Microphone permission denied. Allow it in the browser site settings to enable audio.',
+  'not-found': 'No microphone found.',
+  'busy': 'Microphone is in use by another application.',
+  'unsupported': 'Web Audio is not available in this browser.',
+  'unknown': 'Microphone not available.'
+};
+
+// What an audit looks at: the whole view by default, or a crop with extra prompt context
+interface AuditTarget {
+  rect?: NormalizedRect;
+  context?: string;
+  // Overrides the structured-output setting
+  structured?: boolean;
+}
 
 const App: React.FC = () => {
   const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
-  const [selectedCamera, setSelectedCamera] = useState<string>('');
+  // What the user asked for (persisted) vs. the device the stream actually opened
+  const [cameraPrefs, setCameraPrefs] = useState<CameraPreferences>(loadCameraPreferences);
+  const [activeCamera, setActiveCamera] = useState<string | undefined>(undefined);
+  const [palette, setPalette] = useState<PaletteId>(DEFAULT_PALETTE);
+  const [source, setSource] = useState<InputSourceSpec>({ kind: 'camera' });
+  const [showLogs, setShowLogs] = useState(true);
+  const [showProviders, setShowProviders] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showMotion, setShowMotion] = useState(false);
+  const [zoneDraw, setZoneDraw] = useState<ZoneKind | null>(null);
+  // Rubber-band region of interest, normalized to the canvas; selecting replaces panning while set
+  const [regionSelect, setRegionSelect] = useState(false);
+  const [region, setRegion] = useState<NormalizedRect | null>(null);
+  const motionSettings = useSyncExternalStore(subscribeMotionSettings, getMotionSettings);
+  const lastAutoAuditRef = useRef(0);
+  const [showAudio, setShowAudio] = useState(false);
+  const [showBackground, setShowBackground] = useState(false);
+  const [scene, setScene] = useState<SceneLayer>('live');
+  const [backgroundFrozen, setBackgroundFrozen] = useState(false);
+  const [audioInput, setAudioInput] = useState<AudioInput | null>(null);
+  const [audioStarting, setAudioStarting] = useState(false);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const audioMapping = useSyncExternalStore(subscribeAudioMapping, getAudioMapping);
+  const glyphTable = useSyncExternalStore(subscribeGlyphSettings, getGlyphTable);
+  const perfSettings = useSyncExternalStore(subscribePerformanceSettings, getPerformanceSettings);
+  const spatialOptions = useSyncExternalStore(subscribeSpatialOptions, getSpatialOptions);
+  const [view, setView] = useState<ViewMode>('flat');
+  const { params: renderParams } = useSyncExternalStore(subscribeRenderSettings, getRenderSettings);
+  const calibrationProfiles = useSyncExternalStore(subscribeCalibrationProfiles, getCalibrationProfiles);
+  const [mode, setMode] = useState<MapMode>(MapMode.IDLE);
+  const [popout, setPopout] = useState<PopoutKind | null>(null);
+  // Fullscreen with every panel and the header hidden; only the vision layer stays
+  const [broadcast, setBroadcast] = useState(false);
+  const [broadcastHint, setBroadcastHint] = useState(false);
+  const lastTapRef = useRef(0);
+
+  const mapperRef = useRef<RealityMapperHandle>(null);
+  // Mirrors `mode` synchronously so a second click cannot start a concurrent audit
+  const modeRef = useRef<MapMode>(MapMode.IDLE);
+  // The conversation follow-up questions go to, and the stored snapshot of the frame it is about
+  const sessionRef = useRef<{ session: AuditSession; snapshotId: string } | null>(null);
+  const [detections, setDetections] = useState<Detection[]>([]);
+  // Log entry the current reply is streaming into
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+
+  const logs = useSyncExternalStore(subscribeLogs, getLogs);
+  const recorder = useRecorder(mapperRef, appendLog);
+
+  const transition = (next: MapMode) => {
+    modeRef.current = next;
+    setMode(next);
+  };
 
   const refreshDevices = async () => {
     try {
-      const devices = await navigator.mediaDevices.enumerateDevices();
-      const videoInputs = devices.filter(device => device.kind === 'videoinput');
-      setVideoDevices(videoInputs);
-      
-      if (videoInputs.length > 0 && !selectedCamera) {
-        const back = videoInputs.find(d => d.label.toLowerCase().includes('back') || d.label.toLowerCase().includes('rear'));
-        setSelectedCamera(back?.deviceId || videoInputs[0].deviceId);
-      }
+      setVideoDevices(await listCameras());
     } catch (err) {
       console.error("Device probe failure:", err);
     }
   };
 
+  // Storage also holds the device remembered from the last opened stream, which the live spec leaves unset
+  const updateCameraPrefs = (patch: Partial<CameraPreferences>) => {
+    setCameraPrefs(prev => ({ ...prev, ...patch }));
+    saveCameraPreferences({ ...loadCameraPreferences(), ...patch });
+  };
+
+  // Remembers the device that opened when none was chosen, in storage only: changing the live spec would
+  // reopen the stream it just opened
+  const handleStreamActive = (deviceId?: string) => {
+    setActiveCamera(deviceId);
+    if (deviceId && !cameraPrefs.deviceId) saveCameraPreferences({ ...loadCameraPreferences(), deviceId });
+    refreshDevices();
+  };
+
+  // Profiles belong to a physical sensor; files, screens and patterns are never corrected
+  const calibration = source.kind === 'camera' && activeCamera ? calibrationProfiles[activeCamera] ?? null : null;
+  const activeCameraLabel = videoDevices.find(d => d.deviceId === activeCamera)?.label || 'Camera';
+
+  const effectiveSource = useMemo<InputSourceSpec>(() => (
+    source.kind === 'camera'
+      ? { kind: 'camera', deviceId: cameraPrefs.deviceId, resolution: cameraPrefs.resolution, frameRate: cameraPrefs.frameRate }
+      : source
+  ), [source, cameraPrefs]);
+
+  // Shared preset links carry the preset in the URL hash (#preset=...)
+  const loadPresetFromHash = useCallback(() => {
+    const clearHash = () => history.replaceState(null, '', location.pathname + location.search);
+    let preset: PresetExport | null;
+    try {
+      preset = presetFromHash();
+    } catch (err: any) {
+      appendLog(`Preset link rejected: ${err?.message || err}`, 'error');
+      clearHash();
+      return;
+    }
+    // Any other fragment is left alone
+    if (!preset) return;
+    appendLog(`Preset loaded from link: ${importPreset(preset)}.`);
+    clearHash();
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('hashchange', loadPresetFromHash);
+    return () => window.removeEventListener('hashchange', loadPresetFromHash);
+  }, [loadPresetFromHash]);
+
   useEffect(() => {
     refreshDevices();
-    
+    appendLog('Sight_OS online. Vision layer initializing...');
+    loadPresetFromHash();
+
     const handleDeviceChange = () => refreshDevices();
     navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
-    
+
     return () => {
       navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
     };
   }, []);
 
+  // Streams one reply into a fresh entry, then settles it as analysis, or as uplink error plus local override
+  const converse = async (session: AuditSession, question: string | null, snapshotId: string, frame?: AuditFrame) => {
+    const link = { snapshotId };
+    const entry = appendLog('', 'analysis', link);
+    setStreamingId(entry.id);
+    try {
+      const reply = await session.ask(question, {
+        frame,
+        onText: (text) => updateLog(entry.id, { message: text }, false)
+      });
+      if (reply.override) {
+        if (reply.error) {
+          updateLog(entry.id, { message: `Uplink failure: ${reply.error}`, type: 'error' });
+          appendLog(reply.text, 'override', link);
+        } else {
+          updateLog(entry.id, { message: reply.text, type: 'override' });
+        }
+        return;
+      }
+      updateLog(entry.id, { message: reply.text });
+      if (!session.structured) return;
+      if (!reply.detections) {
+        appendLog('Structured reply unreadable: no objects marked.', 'error', link);
+        return;
+      }
+      if (sessionRef.current?.session === session) setDetections(reply.detections);
+      appendLog(reply.detections.length
+        ? `${reply.detections.length} object(s) marked: ${reply.detections.map(d => d.label).join(', ')}.`
+        : 'No objects marked.', 'system', link);
+    } finally {
+      setStreamingId(null);
+    }
+  };
+
+  // IDLE → SCANNING (sweep) → ANALYZING (model call) → IDLE. Every audit opens a new session.
+  const runAudit = async (target: AuditTarget = {}) => {
+    if (modeRef.current !== MapMode.IDLE) return;
+
+    const snapshot = mapperRef.current?.getSnapshot(target.rect);
+    const frame = mapperRef.current?.getAnalysis() || null;
+    if (!snapshot) {
+      appendLog('Audit aborted: vision layer not ready.', 'error');
+      return;
+    }
+
+    transition(MapMode.SCANNING);
+    // Every entry of this audit links the frame it was run on
+    const snapshotId = storeSnapshot(snapshot);
+    const link = { snapshotId };
+    appendLog(target.rect ? 'Audit initiated. Capturing region...' : 'Audit initiated. Capturing sector...', 'system', link);
+    try {
+      await wait(SCAN_SWEEP_MS);
+      transition(MapMode.ANALYZING);
+      const session = createAuditSession(
+        { image: snapshot, analysis: frame, rect: target.rect },
+        { context: target.context, structured: target.structured }
+      );
+      sessionRef.current = { session, snapshotId };
+      setDetections([]);
+      appendLog(`Uplink established [${getProvider(session.providerId).label}]. Transmitting frame...`);
+      await converse(session, null, snapshotId);
+    } catch (err: any) {
+      appendLog(`Audit failed: ${err?.message || err}`, 'error', link);
+    } finally {
+      transition(MapMode.IDLE);
+    }
+  };
+
+  // Follow-up in the current session; `attach` first captures the same area of the view again
+  const askSession = async (question: string, attach = false) => {
+    const current = sessionRef.current;
+    if (!current) throw new Error('no audit session (run audit first)');
+    if (modeRef.current !== MapMode.IDLE) throw new Error('audit in progress');
+
+    let frame: AuditFrame | undefined;
+    if (attach) {
+      const rect = current.session.frame().rect;
+      const snapshot = mapperRef.current?.getSnapshot(rect);
+      if (!snapshot) throw new Error('vision layer not ready');
+      frame = { image: snapshot, analysis: mapperRef.current?.getAnalysis() || null, rect };
+      current.snapshotId = storeSnapshot(snapshot);
+      appendLog('Frame attached to audit session.', 'system', { snapshotId: current.snapshotId });
+    }
+
+    transition(MapMode.ANALYZING);
+    try {
+      await converse(current.session, question, current.snapshotId, frame);
+    } finally {
+      transition(MapMode.IDLE);
+    }
+  };
+
+  const endSession = () => {
+    sessionRef.current = null;
+    setDetections([]);
+    appendLog('Audit session closed.');
+  };
+
+  // Only ever called from a click, so the AudioContext is allowed to start
+  const startAudio = async () => {
+    if (audioInput || audioStarting) return;
+    setAudioStarting(true);
+    setAudioError(null);
+    try {
+      const input = await startAudioInput(() => {
+        setAudioInput(null);
+        appendLog('Audio link lost: microphone disconnected.', 'error');
+      });
+      setAudioInput(input);
+      appendLog(`Audio link online [${input.label}].`);
+    } catch (err: any) {
+      const message = err instanceof MicrophoneError ? MICROPHONE_ERROR_COPY[err.kind] : (err?.message || String(err));
+      setAudioError(message);
+      appendLog(`Audio link failed: ${message}`, 'error');
+    } finally {
+      setAudioStarting(false);
+    }
+  };
+
+  const stopAudio = () => {
+    audioInput?.stop();
+    setAudioInput(null);
+    appendLog('Audio link closed.');
+  };
+
+  useEffect(() => () => audioInput?.stop(), [audioInput]);
+
+  const handleMotionEvents = (events: ZoneEvent[]) => {
+    for (const { type, zone, region } of events) {
+      const heading = flowSpeed(region.vx, region.vy) >= MIN_HEADING_SPEED ? `, heading ${flowHeading(region.vx, region.vy)}` : '';
+      appendLog(`T${region.id} ${type === 'enter' ? 'entered' : 'left'} ${zone.name}${heading}.`, 'motion');
+    }
+
+    const settings = getMotionSettings();
+    const entry = events.find(e => e.type === 'enter');
+    const mapper = mapperRef.current;
+    const canvas = mapper?.getCanvas();
+    if (!settings.autoAudit || !entry || !mapper || !canvas || modeRef.current !== MapMode.IDLE) return;
+    const now = Date.now();
+    if (now - lastAutoAuditRef.current < settings.autoAuditCooldownSec * 1000) return;
+    lastAutoAuditRef.current = now;
+
+    appendLog(`Auto audit: T${entry.region.id} in ${entry.zone.name}.`, 'motion');
+    runAudit({
+      rect: regionToRect(entry.region, mapper.getCellSize(), canvas.width, canvas.height),
+      context: `Cropped to a moving region that just entered the watched zone "${entry.zone.name}".`
+    });
+  };
+
+  const handleZoneDrawn = (kind: ZoneKind, rect: NormalizedRect) => {
+    const count = getMotionSettings().zones.filter(z => z.kind === kind).length + 1;
+    const name = `${kind === 'include' ? 'Watch' : 'Ignore'} ${count}`;
+    addZone({ name, kind, rect });
+    appendLog(`Zone added: ${name}.`);
+    setZoneDraw(null);
+  };
+
+  const saveSnapshot = () => {
+    const snapshot = mapperRef.current?.getSnapshot();
+    if (!snapshot) {
+      appendLog('Snapshot failed: vision layer not ready.', 'error');
+      return;
+    }
+    const filename = timestampedFilename('sightos-snapshot', 'png');
+    downloadDataUrl(snapshot, filename);
+    appendLog(`Snapshot saved: ${filename}.`);
+  };
+
+  const handleRegionSelected = (rect: NormalizedRect) => {
+    setRegion(rect);
+    setRegionSelect(false);
+  };
+
+  const auditRegion = () => {
+    if (!region) return;
+    runAudit({ rect: region, context: 'Cropped to a region of interest selected by the operator.' });
+  };
+
+  const exportRegion = () => {
+    const snapshot = region && mapperRef.current?.getSnapshot(region);
+    if (!snapshot) {
+      appendLog('Region export failed: vision layer not ready.', 'error');
+      return;
+    }
+    const filename = timestampedFilename('sightos-region', 'png');
+    downloadDataUrl(snapshot, filename);
+    appendLog(`Region saved: ${filename}.`);
+  };
+
+  // Selections and boxes were made on the previous picture
+  const handleViewportChange = () => {
+    setRegion(null);
+    setDetections([]);
+  };
+
+  const togglePopout = async () => {
+    const mapper = mapperRef.current;
+    if (!mapper) return;
+    if (popout) {
+      mapper.closePopout();
+      return;
+    }
+    try {
+      const kind = await mapper.popout();
+      appendLog(kind === 'document'
+        ? 'Vision layer detached to Picture-in-Picture.'
+        : 'Vision layer mirrored to Picture-in-Picture (video).');
+    } catch (err: any) {
+      appendLog(`Popout failed: ${err?.message || err}`, 'error');
+    }
+  };
+
+  const handlePopoutChange = (kind: PopoutKind | null) => {
+    setPopout(kind);
+    if (!kind) appendLog('Vision layer reattached.');
+  };
+
+  const enterBroadcast = () => {
+    setZoneDraw(null);
+    setRegionSelect(false);
+    setBroadcast(true);
+    setBroadcastHint(true);
+    // Best effort: where fullscreen is refused (iOS Safari) the chrome still stays hidden
+    document.documentElement.requestFullscreen?.().catch(() => {});
+  };
+
+  const exitBroadcast = useCallback(() => {
+    setBroadcast(false);
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!broadcast) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') exitBroadcast();
+    };
+    // In fullscreen the browser consumes Esc itself and only reports the fullscreen exit
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) exitBroadcast();
+    };
+    const hintTimer = setTimeout(() => setBroadcastHint(false), BROADCAST_HINT_MS);
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => {
+      clearTimeout(hintTimer);
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+  }, [broadcast, exitBroadcast]);
+
+  const handleQualityChange = (level: number, cellSize: number) => {
+    appendLog(level > 0
+      ? `Adaptive quality: step ${level}, cell size ${cellSize}px.`
+      : 'Adaptive quality: full quality restored.');
+  };
+
+  const relearnBackground = () => {
+    mapperRef.current?.relearnBackground();
+    appendLog('Background model reset, relearning the scene.');
+  };
+
+  const exportLogs = (format: LogExportFormat) => {
+    const filename = downloadLogs(format);
+    appendLog(`Logs exported: ${filename} (${logs.length} entries).`);
+  };
+
+  // Rebuilt every render so commands see current state; each one calls the same handler as its control
+  const commandConsole = createConsoleCommands({
+    log: appendLog,
+    audit: (structured) => { runAudit({ structured }); },
+    ask: (question) => askSession(question),
+    attach: (question) => askSession(question || ATTACH_QUESTION, true),
+    session: () => sessionRef.current?.session ?? null,
+    endSession,
+    viewport: () => mapperRef.current?.getViewport() ?? null,
+    setViewport: (viewport) => mapperRef.current?.setViewport(viewport),
+    region: () => region,
+    auditRegion,
+    exportRegion,
+    clearRegion: () => setRegion(null),
+    snapshot: saveSnapshot,
+    setPalette,
+    cameras: () => videoDevices,
+    useCamera: (deviceId) => {
+      setSource({ kind: 'camera' });
+      setActiveCamera(undefined);
+      updateCameraPrefs({ deviceId });
+    },
+    isRecording: () => recorder.recording,
+    startRecording: recorder.start,
+    stopRecording: recorder.stop,
+    clearLogs: () => clearLogs(sessionRef.current ? [sessionRef.current.snapshotId] : []),
+    exportLogs,
+    popout: () => {
+      if (!isPopoutSupported()) throw new Error('Picture-in-Picture is not supported in this browser');
+      togglePopout();
+    },
+    broadcast: enterBroadcast,
+    setView,
+    setScene,
+    freezeBackground: setBackgroundFrozen,
+    relearnBackground,
+    flow: () => mapperRef.current?.getFlow() ?? null,
+    analysis: () => mapperRef.current?.getAnalysis() ?? null,
+    performance: () => mapperRef.current?.getPerformance() ?? null
+  });
+
+  const runCommand = async (line: string) => {
+    appendLog(line, 'input');
+    try {
+      await commandConsole.execute(line);
+    } catch (err: any) {
+      appendLog(err?.message || String(err), 'error');
+    }
+  };
+
+  // Mouse users get dblclick; touch browsers do not reliably synthesize it, so taps are timed here
+  const handleBroadcastTap = (e: React.PointerEvent) => {
+    if (!broadcast || e.pointerType === 'mouse') return;
+    if (e.timeStamp - lastTapRef.current < DOUBLE_TAP_MS) {
+      lastTapRef.current = 0;
+      exitBroadcast();
+    } else {
+      lastTapRef.current = e.timeStamp;
+    }
+  };
+
+  const busy = mode !== MapMode.IDLE;
+
   return (
-    <div className="w-full h-[100dvh] overflow-hidden bg-black">
-      <div className="absolute top-2 left-2 z-50">
-        <select 
-          value={selectedCamera} 
-          onChange={(e) => setSelectedCamera(e.target.value)}
-          className="bg-black border border-green-800 text-green-500 text-xs px-2 py-1 rounded"
+    <div className="w-full h-[100dvh] overflow-hidden bg-black flex flex-col">
+      <header className={`relative z-50 flex items-center gap-2 px-2 py-1 border-b border-green-900 bg-black ${broadcast ? 'hidden' : ''}`}>
+        <span className="text-green-500 font-bold text-sm glow-text mr-2 select-none">SIGHT_OS</span>
+        <SourcePicker source={source} onChange={setSource} />
+        <select
+          value={activeCamera || cameraPrefs.deviceId || ''}
+          disabled={source.kind !== 'camera'}
+          onChange={(e) => {
+            setActiveCamera(undefined);
+            updateCameraPrefs({ deviceId: e.target.value || undefined });
+          }}
+          className="bg-black border border-green-800 text-green-500 text-xs px-2 py-1 rounded disabled:opacity-50"
+          aria-label="Camera device"
         >
           {videoDevices.length === 0 && <option value="">Loading...</option>}
           {videoDevices.map((device, idx) => (
-            <option key={device.deviceId} value={device.deviceId}>
+            <option key={device.deviceId || idx} value={device.deviceId}>
               {device.label || `Camera ${idx + 1}`}
             </option>
           ))}
         </select>
-      </div>
-      
-      <RealityMapper 
-        selectedDeviceId={selectedCamera}
-        onStreamActive={() => refreshDevices()}
-      />
+        <select
+          value={cameraPrefs.resolution}
+          disabled={source.kind !== 'camera'}
+          onChange={(e) => updateCameraPrefs({ resolution: e.target.value as ResolutionPreset })}
+          className="bg-black border border-green-800 text-green-500 text-xs px-2 py-1 rounded disabled:opacity-50"
+          aria-label="Camera resolution"
+        >
+          {RESOLUTIONS.map(r => (
+            <option key={r.id} value={r.id}>{r.label}</option>
+          ))}
+        </select>
+        <select
+          value={cameraPrefs.frameRate}
+          disabled={source.kind !== 'camera'}
+          onChange={(e) => updateCameraPrefs({ frameRate: Number(e.target.value) })}
+          className="bg-black border border-green-800 text-green-500 text-xs px-2 py-1 rounded disabled:opacity-50"
+          aria-label="Camera frame rate"
+        >
+          {FRAME_RATES.map(fps => (
+            <option key={fps} value={fps}>{fps > 0 ? `${fps} fps` : 'Auto fps'}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setShowCalibration(v => !v)}
+          disabled={source.kind !== 'camera' || !activeCamera}
+          className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 disabled:opacity-50 ${calibration ? 'text-green-400' : 'text-green-800'}`}
+          aria-label="Calibrate camera"
+          title={calibration ? `Calibrated: gain ${calibration.gain.toFixed(2)}, noise ${calibration.noiseFloor.toFixed(4)}` : 'Uncalibrated'}
+        >
+          <Gauge className="w-3.5 h-3.5" />
+        </button>
+        <select
+          value={palette}
+          onChange={(e) => setPalette(e.target.value as PaletteId)}
+          className="bg-black border border-green-800 text-green-500 text-xs px-2 py-1 rounded"
+        >
+          {PALETTES.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+        <div className="ml-auto flex items-center gap-1">
+          <RecorderControls recorder={recorder} />
+          <button
+            onClick={saveSnapshot}
+            className="border border-green-800 text-green-500 text-xs p-1 rounded hover:bg-green-900/30"
+            aria-label="Save snapshot"
+          >
+            <Camera className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => runAudit()}
+            disabled={busy}
+            className="flex items-center gap-1 border border-green-800 text-green-500 text-xs px-2 py-1 rounded hover:bg-green-900/30 disabled:opacity-50 disabled:cursor-wait"
+            aria-label="Audit sector"
+          >
+            <ScanLine className={`w-3.5 h-3.5 ${busy ? 'animate-pulse' : ''}`} />
+            {busy ? mode : 'AUDIT'}
+          </button>
+          <button
+            onClick={() => setRegionSelect(v => !v)}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 ${regionSelect || region ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="Select region"
+            title={regionSelect ? 'Drag over the view to select a region' : 'Select a region to audit or export'}
+          >
+            <Crop className="w-3.5 h-3.5" />
+          </button>
+          {audioInput && <AudioLevelMeter input={audioInput} className="w-12" />}
+          <button
+            onClick={() => setShowAudio(v => !v)}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 ${showAudio || audioInput ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="Audio input"
+          >
+            <Mic className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setShowMotion(v => !v)}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 ${showMotion || motionSettings.enabled ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="Motion monitor"
+          >
+            <Activity className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setShowBackground(v => !v)}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 ${showBackground || scene !== 'live' ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="Background model"
+          >
+            <Layers className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setShowSettings(v => !v)}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 ${showSettings ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="Render parameters"
+          >
+            <Settings className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setShowProviders(v => !v)}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 ${showProviders ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="Vision provider settings"
+          >
+            <Cpu className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setShowLogs(v => !v)}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 ${showLogs ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="Toggle logs"
+          >
+            <Terminal className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setView(v => v === 'flat' ? 'spatial' : 'flat')}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 ${view === 'spatial' ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="3D view"
+            title={view === 'spatial' ? 'Back to the flat view' : '3D height-field view'}
+          >
+            <Box className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={togglePopout}
+            disabled={!isPopoutSupported()}
+            className={`border border-green-800 text-xs p-1 rounded hover:bg-green-900/30 disabled:opacity-50 ${popout ? 'text-green-400' : 'text-green-800'}`}
+            aria-label="Popout"
+            title={isPopoutSupported() ? 'Picture-in-Picture' : 'Picture-in-Picture is not supported in this browser'}
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={enterBroadcast}
+            className="border border-green-800 text-green-800 text-xs p-1 rounded hover:bg-green-900/30"
+            aria-label="Broadcast"
+            title="Broadcast: fullscreen without chrome (Esc or double-tap to exit)"
+          >
+            <Cast className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </header>
+
+      <main
+        className="relative flex-1 min-h-0"
+        onDoubleClick={broadcast ? exitBroadcast : undefined}
+        onPointerUp={handleBroadcastTap}
+      >
+        <RealityMapper
+          ref={mapperRef}
+          onStreamActive={handleStreamActive}
+          palette={palette}
+          onPaletteChange={setPalette}
+          mode={mode}
+          source={effectiveSource}
+          onSourceEnded={(label) => appendLog(`Input lost: ${label}.`, 'error')}
+          onSourceRecovered={(label) => appendLog(`Camera reacquired: ${label}.`)}
+          params={renderParams}
+          calibration={calibration}
+          motion={motionSettings}
+          onMotionEvents={handleMotionEvents}
+          zoneDraw={zoneDraw}
+          onZoneDrawn={handleZoneDrawn}
+          audio={audioInput}
+          audioMapping={audioMapping}
+          glyphs={glyphTable}
+          onPopoutChange={handlePopoutChange}
+          perf={perfSettings}
+          onQualityChange={handleQualityChange}
+          view={view}
+          spatial={spatialOptions}
+          scene={scene}
+          backgroundFrozen={backgroundFrozen}
+          detections={detections}
+          regionSelect={regionSelect}
+          onRegionSelected={handleRegionSelected}
+          onViewportChange={handleViewportChange}
+        />
+        {region && view === 'flat' && !broadcast && (
+          <RegionSelection
+            rect={region}
+            busy={busy}
+            onAudit={auditRegion}
+            onExport={exportRegion}
+            onClear={() => setRegion(null)}
+          />
+        )}
+        {broadcast && broadcastHint && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 pointer-events-none border border-green-900 bg-black/80 rounded px-3 py-1 text-green-600 text-xs font-mono">
+            ESC OR DOUBLE-TAP TO EXIT
+          </div>
+        )}
+        {!broadcast && showCalibration && source.kind === 'camera' && activeCamera && (
+          <div className="absolute inset-0 z-50 flex items-center justify-center pointer-events-none">
+            <div className="pointer-events-auto">
+              <CalibrationWizard
+                mapperRef={mapperRef}
+                deviceLabel={activeCameraLabel}
+                current={calibrationProfiles[activeCamera]}
+                onSave={(profile) => {
+                  saveCalibration(activeCamera, profile);
+                  appendLog(`Sensor calibrated [${activeCameraLabel}]: gain ${profile.gain.toFixed(2)}, noise floor ${profile.noiseFloor.toFixed(4)}.`);
+                  setShowCalibration(false);
+                }}
+                onClear={() => {
+                  clearCalibration(activeCamera);
+                  appendLog(`Calibration cleared [${activeCameraLabel}].`);
+                }}
+                onClose={() => setShowCalibration(false)}
+              />
+            </div>
+          </div>
+        )}
+        {!broadcast && (showSettings || showMotion || showBackground || showAudio) && (
+          <div className="absolute top-2 left-2 bottom-2 z-40 flex flex-col items-start gap-2 pointer-events-none">
+            {showSettings && (
+              <div className="pointer-events-auto min-h-0 flex">
+                <RenderSettingsPanel onClose={() => setShowSettings(false)} onLog={appendLog} />
+              </div>
+            )}
+            {showMotion && (
+              <div className="pointer-events-auto min-h-0 flex">
+                <MotionPanel
+                  drawing={zoneDraw}
+                  onDraw={setZoneDraw}
+                  onClose={() => { setShowMotion(false); setZoneDraw(null); }}
+                />
+              </div>
+            )}
+            {showBackground && (
+              <div className="pointer-events-auto min-h-0 flex">
+                <BackgroundPanel
+                  layer={scene}
+                  onLayerChange={setScene}
+                  frozen={backgroundFrozen}
+                  onFrozenChange={setBackgroundFrozen}
+                  onRelearn={relearnBackground}
+                  onClose={() => setShowBackground(false)}
+                />
+              </div>
+            )}
+            {showAudio && (
+              <div className="pointer-events-auto min-h-0 flex">
+                <AudioPanel
+                  input={audioInput}
+                  starting={audioStarting}
+                  error={audioError}
+                  onStart={startAudio}
+                  onStop={stopAudio}
+                  onClose={() => setShowAudio(false)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+        {!broadcast && showProviders && (
+          <div className="absolute top-2 right-2 bottom-2 z-40 flex items-start pointer-events-none">
+            <div className="pointer-events-auto max-h-full flex">
+              <ProviderSettingsPanel onClose={() => setShowProviders(false)} />
+            </div>
+          </div>
+        )}
+        {!broadcast && showLogs && (
+          <div className="absolute bottom-2 right-2 z-40 w-[min(28rem,calc(100%-1rem))] h-64">
+            <TerminalOutput
+              logs={logs}
+              onClose={() => setShowLogs(false)}
+              onCommand={runCommand}
+              complete={commandConsole.complete}
+              streamingId={streamingId}
+            />
+          </div>
+        )}
+      </main>
     </div>
   );
 };
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+import type { AudioInput } from '../services/audioInput';
+
+interface AudioLevelMeterProps {
+  input: AudioInput;
+  // Also draw the spectrum bands under the level bar
+  showBands?: boolean;
+  className?: string;
+}
+
+// Reads the features the render loop computed and writes styles directly, so the meter never re-renders React
+const AudioLevelMeter: React.FC<AudioLevelMeterProps> = ({ input, showBands = false, className = '' }) => {
+  const levelRef = useRef<HTMLDivElement>(null);
+  const bandsRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const { level, onset, bands } = input.latest();
+      if (levelRef.current) {
+        levelRef.current.style.width = `${Math.round(level * 100)}%`;
+        levelRef.current.style.backgroundColor = onset > 0.5 ? '#bbffcc' : '#22c55e';
+      }
+      const bars = bandsRef.current?.children;
+      if (bars) {
+        for (let i = 0; i < bars.length; i++) {
+          (bars[i] as HTMLElement).style.height = `${Math.round((bands[i] ?? 0) * 100)}%`;
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [input]);
+
+  return (
+    <div className={className} role="meter" aria-label="Microphone level">
+      <div className="h-1.5 bg-green-950 rounded overflow-hidden">
+        <div ref={levelRef} className="h-full bg-green-500" style={{ width: 0 }} />
+      </div>
+      {showBands && (
+        <div ref={bandsRef} className="mt-1 h-8 flex items-end gap-px">
+          {Array.from(input.latest().bands, (_, i) => (
+            <div key={i} className="flex-1 bg-green-700" style={{ height: 0 }} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioLevelMeter;
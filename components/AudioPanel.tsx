@@ -0,0 +1,115 @@
+import React, { useSyncExternalStore } from 'react';
+import { Mic, MicOff, RotateCcw, X } from 'lucide-react';
+import AudioLevelMeter from './AudioLevelMeter';
+import { AUDIO_SOURCES, AUDIO_TARGETS, AudioSourceKey } from '../lib/audioMapping';
+import type { AudioInput } from '../services/audioInput';
+import {
+  getAudioMapping,
+  resetAudioMapping,
+  subscribeAudioMapping,
+  updateAudioColumns,
+  updateAudioTarget
+} from '../services/audioSettings';
+
+interface AudioPanelProps {
+  input: AudioInput | null;
+  starting: boolean;
+  error: string | null;
+  onStart: () => void;
+  onStop: () => void;
+  onClose?: () => void;
+}
+
+const inputClass = 'bg-black border border-green-900 text-green-400 text-xs px-2 py-1 rounded focus:outline-none focus:border-green-600';
+const labelClass = 'block text-[10px] uppercase tracking-wider text-green-700 mb-0.5';
+
+const AudioPanel: React.FC<AudioPanelProps> = ({ input, starting, error, onStart, onStop, onClose }) => {
+  const mapping = useSyncExternalStore(subscribeAudioMapping, getAudioMapping);
+
+  return (
+    <div className="w-72 max-h-full overflow-y-auto custom-scrollbar border border-green-900 bg-black/95 rounded-lg shadow-[0_0_15px_rgba(0,255,0,0.1)] font-mono text-sm p-3 space-y-2">
+      <div className="flex justify-between items-center select-none">
+        <span className="text-green-500 font-bold">AUDIO_LINK</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={resetAudioMapping}
+            className="text-green-800 hover:text-green-500 transition-colors p-1"
+            aria-label="Reset audio mapping"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+          {onClose && (
+            <button onClick={onClose} className="text-green-800 hover:text-green-500 transition-colors p-1" aria-label="Close audio">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={input ? onStop : onStart}
+        disabled={starting}
+        className="w-full flex items-center justify-center gap-2 border border-green-800 text-green-500 text-xs px-2 py-1 rounded hover:bg-green-900/30 disabled:opacity-50"
+      >
+        {input ? <MicOff className="w-3.5 h-3.5" /> : <Mic className="w-3.5 h-3.5" />}
+        {starting ? 'REQUESTING...' : input ? 'STOP MICROPHONE' : 'ENABLE MICROPHONE'}
+      </button>
+      {input && (
+        <>
+          <div className="text-[10px] text-green-700 truncate">{input.label}</div>
+          <AudioLevelMeter input={input} showBands />
+        </>
+      )}
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">MAPPING</div>
+        {AUDIO_TARGETS.map(({ key, label }) => (
+          <div key={key}>
+            <span className={labelClass}>{label}</span>
+            <div className="flex items-center gap-2">
+              <select
+                value={mapping[key].source}
+                onChange={(e) => updateAudioTarget(key, { source: e.target.value as AudioSourceKey })}
+                className={`${inputClass} w-24`}
+                aria-label={`${label} source`}
+              >
+                {AUDIO_SOURCES.map(s => (
+                  <option key={s.id} value={s.id}>{s.label}</option>
+                ))}
+              </select>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={mapping[key].amount}
+                disabled={mapping[key].source === 'off'}
+                onChange={(e) => updateAudioTarget(key, { amount: Number(e.target.value) })}
+                className="flex-1 accent-green-500 disabled:opacity-40"
+                aria-label={`${label} amount`}
+              />
+            </div>
+          </div>
+        ))}
+        <label className="block">
+          <span className={`${labelClass} flex justify-between`}>
+            <span>Spectrum columns</span>
+            <span className="text-green-500 tabular-nums">{mapping.columns.toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={mapping.columns}
+            onChange={(e) => updateAudioColumns(Number(e.target.value))}
+            className="w-full accent-green-500"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default AudioPanel;
@@ -0,0 +1,96 @@
+import React, { useSyncExternalStore } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { RENDER_PARAM_SPECS } from '../lib/renderParams';
+import { SCENE_LAYERS, SceneLayer } from '../lib/sceneLayers';
+import { getRenderSettings, subscribeRenderSettings, updateRenderParams } from '../services/renderSettings';
+
+interface BackgroundPanelProps {
+  layer: SceneLayer;
+  onLayerChange: (layer: SceneLayer) => void;
+  frozen: boolean;
+  onFrozenChange: (frozen: boolean) => void;
+  onRelearn: () => void;
+  onClose?: () => void;
+}
+
+const labelClass = 'block text-[10px] uppercase tracking-wider text-green-700 mb-0.5';
+
+const SPECS = RENDER_PARAM_SPECS.filter(spec => spec.group === 'Background');
+
+const decimals = (step: number) => (String(step).split('.')[1] || '').length;
+
+const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ layer, onLayerChange, frozen, onFrozenChange, onRelearn, onClose }) => {
+  const { params } = useSyncExternalStore(subscribeRenderSettings, getRenderSettings);
+
+  return (
+    <div className="w-72 max-h-full overflow-y-auto custom-scrollbar border border-green-900 bg-black/95 rounded-lg shadow-[0_0_15px_rgba(0,255,0,0.1)] font-mono text-sm p-3 space-y-2">
+      <div className="flex justify-between items-center select-none">
+        <span className="text-green-500 font-bold">BACKGROUND_MODEL</span>
+        {onClose && (
+          <button onClick={onClose} className="text-green-800 hover:text-green-500 transition-colors p-1" aria-label="Close background model">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-1" role="radiogroup" aria-label="Scene layer">
+        {SCENE_LAYERS.map(({ id, label }) => (
+          <button
+            key={id}
+            role="radio"
+            aria-checked={layer === id}
+            onClick={() => onLayerChange(id)}
+            className={`flex-1 border text-[10px] px-2 py-1 rounded ${
+              layer === id ? 'border-green-500 text-green-300 bg-green-900/30' : 'border-green-800 text-green-600 hover:bg-green-900/30'
+            }`}
+          >
+            {label.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      <div className="text-[10px] text-green-800">
+        Ghost dims static scenery so only foreground burns bright. Background shows the learned model itself.
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label className="flex-1 flex items-center gap-2 text-xs text-green-500">
+          <input
+            type="checkbox"
+            checked={frozen}
+            onChange={(e) => onFrozenChange(e.target.checked)}
+            className="accent-green-500"
+          />
+          Freeze background
+        </label>
+        <button
+          onClick={onRelearn}
+          className="flex items-center gap-1 border border-green-800 text-green-600 text-[10px] px-2 py-1 rounded hover:bg-green-900/30"
+          title="Forget the learned background and learn it again from the next frames"
+        >
+          <RefreshCw className="w-3 h-3" />
+          RELEARN
+        </button>
+      </div>
+
+      {SPECS.map(spec => (
+        <label key={spec.key} className="block">
+          <span className={`${labelClass} flex justify-between`}>
+            <span>{spec.label}</span>
+            <span className="text-green-500 tabular-nums">{params[spec.key].toFixed(decimals(spec.step))}</span>
+          </span>
+          <input
+            type="range"
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            value={params[spec.key]}
+            onChange={(e) => updateRenderParams({ [spec.key]: Number(e.target.value) })}
+            className="w-full accent-green-500"
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default BackgroundPanel;
@@ -0,0 +1,165 @@
+import React, { RefObject, useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import type { RealityMapperHandle } from './RealityMapper';
+import {
+  CalibrationProfile,
+  createLumaAccumulator,
+  deriveCalibration,
+  LumaAccumulator,
+  LumaStats
+} from '../lib/calibration';
+
+interface CalibrationWizardProps {
+  mapperRef: RefObject<RealityMapperHandle | null>;
+  deviceLabel: string;
+  current?: CalibrationProfile;
+  onSave: (profile: CalibrationProfile) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type Step = 'intro' | 'dark' | 'bright' | 'review';
+
+const CAPTURE_FRAMES = 45;
+
+const STEP_COPY: Record<'dark' | 'bright', { title: string; instructions: string }> = {
+  dark: {
+    title: 'DARK FRAMES',
+    instructions: 'Cover the lens completely (cap, fingertip or opaque tape), then capture.'
+  },
+  bright: {
+    title: 'BRIGHT FRAMES',
+    instructions: 'Uncover the lens and fill the view with an evenly lit white surface, then capture.'
+  }
+};
+
+const buttonClass = 'border border-green-800 text-green-500 text-xs px-3 py-1 rounded hover:bg-green-900/30 disabled:opacity-50';
+
+const formatProfile = (p: CalibrationProfile) => [
+  ['Dark level', p.darkLevel.toFixed(3)],
+  ['White level', p.whiteLevel.toFixed(3)],
+  ['Offset', p.offset.toFixed(3)],
+  ['Gain', p.gain.toFixed(2)],
+  ['Noise floor', p.noiseFloor.toFixed(4)]
+];
+
+// Two-phase capture (lens covered, then a bright reference) producing a per-camera offset, gain and noise floor
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ mapperRef, deviceLabel, current, onSave, onClear, onClose }) => {
+  const [step, setStep] = useState<Step>('intro');
+  const [capturing, setCapturing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<CalibrationProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const darkStatsRef = useRef<LumaStats | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  const capture = (phase: 'dark' | 'bright') => {
+    const mapper = mapperRef.current;
+    if (!mapper || capturing) return;
+    const accumulator: LumaAccumulator = createLumaAccumulator();
+    let lastSequence = -1;
+    setError(null);
+    setProgress(0);
+    setCapturing(true);
+
+    unsubscribeRef.current = mapper.subscribeFrames(frame => {
+      // The render loop redraws the last analysis until a new one lands; count each sensor frame once
+      if (frame.sequence === lastSequence) return;
+      lastSequence = frame.sequence;
+      accumulator.add(frame.pixels, frame.cols * frame.rows);
+      setProgress(accumulator.frames() / CAPTURE_FRAMES);
+      if (accumulator.frames() < CAPTURE_FRAMES) return;
+
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = null;
+      setCapturing(false);
+      const stats = accumulator.stats();
+      if (phase === 'dark') {
+        darkStatsRef.current = stats;
+        setStep('bright');
+        return;
+      }
+      try {
+        setResult(deriveCalibration(darkStatsRef.current!, stats));
+        setStep('review');
+      } catch (err: any) {
+        setError(err?.message || String(err));
+      }
+    });
+  };
+
+  const restart = () => {
+    darkStatsRef.current = null;
+    setResult(null);
+    setError(null);
+    setStep('dark');
+  };
+
+  return (
+    <div className="w-80 border border-green-900 bg-black/95 rounded-lg shadow-[0_0_15px_rgba(0,255,0,0.1)] font-mono text-sm p-3 space-y-3">
+      <div className="flex justify-between items-center select-none">
+        <span className="text-green-500 font-bold">SENSOR_CALIBRATION</span>
+        <button onClick={onClose} className="text-green-800 hover:text-green-500 transition-colors p-1" aria-label="Close calibration">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="text-[10px] text-green-700 truncate">{deviceLabel}</div>
+
+      {step === 'intro' && (
+        <>
+          <p className="text-green-600 text-xs">
+            Measures the sensor black level, white level and frame-to-frame noise. Edge and motion detection then
+            ignore anything within the noise floor. Stored for this camera only.
+          </p>
+          {current && (
+            <div className="text-xs text-green-600 border border-green-900 rounded p-2">
+              <div className="text-[10px] text-green-700 mb-1">CURRENT PROFILE ({new Date(current.capturedAt).toLocaleDateString()})</div>
+              {formatProfile(current).map(([label, value]) => (
+                <div key={label} className="flex justify-between"><span>{label}</span><span className="tabular-nums">{value}</span></div>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button onClick={restart} className={buttonClass}>START</button>
+            {current && <button onClick={onClear} className={buttonClass}>CLEAR PROFILE</button>}
+          </div>
+        </>
+      )}
+
+      {(step === 'dark' || step === 'bright') && (
+        <>
+          <div className="text-green-400 text-xs font-bold">{STEP_COPY[step].title} ({step === 'dark' ? 1 : 2}/2)</div>
+          <p className="text-green-600 text-xs">{STEP_COPY[step].instructions}</p>
+          <div className="h-1.5 bg-green-950 rounded overflow-hidden">
+            <div className="h-full bg-green-500 transition-[width]" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          {error && <p className="text-red-400 text-xs">{error}</p>}
+          <div className="flex gap-2">
+            <button onClick={() => capture(step)} disabled={capturing} className={buttonClass}>
+              {capturing ? 'CAPTURING...' : error ? 'RETRY' : 'CAPTURE'}
+            </button>
+            {error && <button onClick={restart} className={buttonClass}>START OVER</button>}
+          </div>
+        </>
+      )}
+
+      {step === 'review' && result && (
+        <>
+          <div className="text-xs text-green-500 border border-green-900 rounded p-2">
+            {formatProfile(result).map(([label, value]) => (
+              <div key={label} className="flex justify-between"><span>{label}</span><span className="tabular-nums">{value}</span></div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => onSave(result)} className={buttonClass}>SAVE</button>
+            <button onClick={restart} className={buttonClass}>REDO</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,28 @@
+import React from 'react';
+import type { Detection } from '../lib/detections';
+
+interface DetectionOverlayProps {
+  detections: Detection[];
+  className?: string;
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+
+// Labelled boxes from a structured audit, laid over the canvas as DOM so they stay out of snapshots and recordings
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ detections, className = '' }) => (
+  <div className={`absolute inset-0 pointer-events-none ${className}`} aria-label="Audit detections">
+    {detections.map(({ label, rect }, i) => (
+      <div
+        key={i}
+        className="absolute border border-cyan-400 shadow-[0_0_6px_rgba(34,211,238,0.6)]"
+        style={{ left: pct(rect.x), top: pct(rect.y), width: pct(rect.w), height: pct(rect.h) }}
+      >
+        <span className="absolute left-0 -top-4 max-w-[12rem] truncate bg-black/80 px-1 font-mono text-[10px] leading-4 text-cyan-300">
+          {label}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default DetectionOverlay;
@@ -1,78 +1,115 @@
 import React, { useEffect, useRef } from 'react';
+import { createGridRenderer, GridFrame } from '../lib/gridRenderer';
+import { createRainSimulation, RainParams } from '../lib/digitalRain';
+import { DEFAULT_GLYPH_TABLE, GlyphTable } from '../lib/glyphSets';
+import { DEFAULT_PALETTE, PaletteId } from '../lib/palettes';
+import { DEFAULT_RENDER_PARAMS, rainParams, shadingParams } from '../lib/renderParams';
 
 interface MatrixRainProps {
-  opacity: number;
-  color: string;
+  opacity?: number;
+  palette?: PaletteId;
+  cellSize?: number;
+  // Brightness of the drops, like the Rain level parameter
+  level?: number;
+  // Overrides of the default density, speed, tail and interaction
+  rain?: Partial<RainParams>;
+  glyphs?: GlyphTable;
+  className?: string;
 }
 
-const MatrixRain: React.FC<MatrixRainProps> = ({ opacity, color }) => {
+// The mapper's rain layer without a scene, for backgrounds. Fills its positioned parent and follows its size.
+const MatrixRain: React.FC<MatrixRainProps> = ({
+  opacity = 1,
+  palette = DEFAULT_PALETTE,
+  cellSize = 16,
+  level = 1,
+  rain,
+  glyphs = DEFAULT_GLYPH_TABLE,
+  className = ''
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The loop outlives renders and reads the latest props from here
+  const optionsRef = useRef({ palette, cellSize, level, rain, glyphs });
+  optionsRef.current = { palette, cellSize, level, rain, glyphs };
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    let width = window.innerWidth;
-    let height = window.innerHeight;
-    canvas.width = width;
-    canvas.height = height;
-
-    const alphabet = '10';
-    const fontSize = 16;
-    const columns = Math.ceil(width / fontSize);
-
-    const drops: number[] = [];
-    const speeds: number[] = [];
-    
-    for (let x = 0; x < columns; x++) {
-      drops[x] = Math.random() * -100;
-      speeds[x] = 0.5 + Math.random() * 1.5; // Varied speeds for background depth
-    }
-
-    const draw = () => {
-      ctx.fillStyle = `rgba(0, 0, 0, 0.1)`;
-      ctx.fillRect(0, 0, width, height);
-
-      ctx.fillStyle = color;
-      ctx.font = `${fontSize}px 'Fira Code', monospace`;
-
-      for (let i = 0; i < drops.length; i++) {
-        const text = alphabet.charAt(Math.floor(Math.random() * alphabet.length));
-        ctx.fillText(text, i * fontSize, Math.floor(drops[i]) * fontSize);
-
-        if (drops[i] * fontSize > height && Math.random() > 0.975) {
-          drops[i] = 0;
-        }
-        drops[i] += speeds[i];
-      }
+    const renderer = createGridRenderer();
+    const simulation = createRainSimulation();
+    // No scene: every luma is below the cutoff, so only the rain is drawn
+    let blank = {
+      luma: new Float32Array(0),
+      edges: new Float32Array(0),
+      orientation: new Uint8Array(0),
+      motion: new Float32Array(0),
+      pixels: new Uint8ClampedArray(0)
     };
+    let frame = 0;
+    let lastRender = performance.now();
 
-    const interval = setInterval(draw, 40); // Slightly slower frame rate for background optimization
+    const render = () => {
+      const now = performance.now();
+      const dt = (now - lastRender) / 1000;
+      lastRender = now;
 
-    const handleResize = () => {
-        width = window.innerWidth;
-        height = window.innerHeight;
+      const width = canvas.clientWidth || window.innerWidth;
+      const height = canvas.clientHeight || window.innerHeight;
+      if (canvas.width !== width || canvas.height !== height) {
         canvas.width = width;
         canvas.height = height;
+      }
+
+      const options = optionsRef.current;
+      const cols = Math.ceil(width / options.cellSize);
+      const rows = Math.ceil(height / options.cellSize);
+      if (blank.luma.length !== cols * rows) {
+        blank = {
+          luma: new Float32Array(cols * rows),
+          edges: new Float32Array(cols * rows),
+          orientation: new Uint8Array(cols * rows),
+          motion: new Float32Array(cols * rows),
+          pixels: new Uint8ClampedArray(cols * rows * 4)
+        };
+      }
+
+      const params = { ...rainParams(DEFAULT_RENDER_PARAMS), ...options.rain };
+      const grid: GridFrame = {
+        ...blank,
+        sequence: 0,
+        cols,
+        rows,
+        cellSize: options.cellSize,
+        phase: 0,
+        palette: options.palette,
+        shading: { ...shadingParams(DEFAULT_RENDER_PARAMS), shimmer: 0, rainLevel: options.level },
+        gain: 1,
+        columnGain: null,
+        rain: simulation.update(cols, rows, dt, params),
+        glyphs: options.glyphs,
+        flow: null
+      };
+      renderer.draw(ctx, grid);
+      frame = requestAnimationFrame(render);
     };
-    window.addEventListener('resize', handleResize);
 
+    render();
     return () => {
-      clearInterval(interval);
-      window.removeEventListener('resize', handleResize);
+      cancelAnimationFrame(frame);
+      renderer.dispose();
     };
-  }, [color]);
+  }, []);
 
   return (
     <canvas
       ref={canvasRef}
-      className="fixed top-0 left-0 w-full h-full pointer-events-none z-0"
+      className={`absolute inset-0 w-full h-full pointer-events-none ${className}`}
       style={{ opacity }}
     />
   );
 };
 
-export default MatrixRain;
\ No newline at end of file
+export default MatrixRain;
@@ -0,0 +1,206 @@
+import React, { useSyncExternalStore } from 'react';
+import { Trash2, X } from 'lucide-react';
+import type { ZoneKind } from '../lib/motionRegions';
+import { FLOW_DISPLAYS } from '../lib/flowOverlay';
+import { getRenderSettings, subscribeRenderSettings, updateRenderParams } from '../services/renderSettings';
+import {
+  getMotionSettings,
+  removeZone,
+  subscribeMotionSettings,
+  updateMotionSettings,
+  updateZone
+} from '../services/motionSettings';
+
+interface MotionPanelProps {
+  // Zone kind currently being drawn on the canvas, if any
+  drawing: ZoneKind | null;
+  onDraw: (kind: ZoneKind | null) => void;
+  onClose?: () => void;
+}
+
+const inputClass = 'w-full bg-black border border-green-900 text-green-400 text-xs px-2 py-1 rounded focus:outline-none focus:border-green-600';
+const labelClass = 'block text-[10px] uppercase tracking-wider text-green-700 mb-0.5';
+
+const MotionPanel: React.FC<MotionPanelProps> = ({ drawing, onDraw, onClose }) => {
+  const settings = useSyncExternalStore(subscribeMotionSettings, getMotionSettings);
+  const { params } = useSyncExternalStore(subscribeRenderSettings, getRenderSettings);
+
+  const drawButton = (kind: ZoneKind, label: string) => (
+    <button
+      onClick={() => onDraw(drawing === kind ? null : kind)}
+      className={`flex-1 border text-[10px] px-2 py-1 rounded ${
+        drawing === kind ? 'border-green-500 text-green-300 bg-green-900/30' : 'border-green-800 text-green-600 hover:bg-green-900/30'
+      }`}
+    >
+      {drawing === kind ? 'DRAG ON VIEW...' : label}
+    </button>
+  );
+
+  return (
+    <div className="w-72 max-h-full overflow-y-auto custom-scrollbar border border-green-900 bg-black/95 rounded-lg shadow-[0_0_15px_rgba(0,255,0,0.1)] font-mono text-sm p-3 space-y-2">
+      <div className="flex justify-between items-center select-none">
+        <span className="text-green-500 font-bold">MOTION_MONITOR</span>
+        {onClose && (
+          <button onClick={onClose} className="text-green-800 hover:text-green-500 transition-colors p-1" aria-label="Close motion monitor">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-green-500">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => updateMotionSettings({ enabled: e.target.checked })}
+          className="accent-green-500"
+        />
+        Detect motion regions
+      </label>
+      <label className="flex items-center gap-2 text-xs text-green-500">
+        <input
+          type="checkbox"
+          checked={settings.showRegions}
+          onChange={(e) => updateMotionSettings({ showRegions: e.target.checked })}
+          className="accent-green-500"
+        />
+        Draw regions and zones
+      </label>
+
+      <label className="block">
+        <span className={`${labelClass} flex justify-between`}>
+          <span>Threshold</span>
+          <span className="text-green-500 tabular-nums">{settings.threshold.toFixed(2)}</span>
+        </span>
+        <input
+          type="range"
+          min={0.01}
+          max={0.3}
+          step={0.01}
+          value={settings.threshold}
+          onChange={(e) => updateMotionSettings({ threshold: Number(e.target.value) })}
+          className="w-full accent-green-500"
+        />
+      </label>
+      <label className="block">
+        <span className={`${labelClass} flex justify-between`}>
+          <span>Min region cells</span>
+          <span className="text-green-500 tabular-nums">{settings.minCells}</span>
+        </span>
+        <input
+          type="range"
+          min={1}
+          max={100}
+          step={1}
+          value={settings.minCells}
+          onChange={(e) => updateMotionSettings({ minCells: Number(e.target.value) })}
+          className="w-full accent-green-500"
+        />
+      </label>
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">OPTICAL FLOW</div>
+        <div className="flex gap-1" role="radiogroup" aria-label="Flow display">
+          {FLOW_DISPLAYS.map(({ id, label }) => (
+            <button
+              key={id}
+              role="radio"
+              aria-checked={settings.flowDisplay === id}
+              onClick={() => updateMotionSettings({ flowDisplay: id })}
+              className={`flex-1 border text-[10px] px-2 py-1 rounded ${
+                settings.flowDisplay === id ? 'border-green-500 text-green-300 bg-green-900/30' : 'border-green-800 text-green-600 hover:bg-green-900/30'
+              }`}
+            >
+              {label.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <label className="block">
+          <span className={`${labelClass} flex justify-between`}>
+            <span>Min speed (cells/frame)</span>
+            <span className="text-green-500 tabular-nums">{settings.flowMinSpeed.toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.05}
+            value={settings.flowMinSpeed}
+            onChange={(e) => updateMotionSettings({ flowMinSpeed: Number(e.target.value) })}
+            className="w-full accent-green-500"
+          />
+        </label>
+        <label className="block">
+          <span className={`${labelClass} flex justify-between`}>
+            <span>Shake compensation</span>
+            <span className="text-green-500 tabular-nums">{params.shakeCompensation.toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={params.shakeCompensation}
+            onChange={(e) => updateRenderParams({ shakeCompensation: Number(e.target.value) })}
+            className="w-full accent-green-500"
+          />
+        </label>
+        <div className="text-[10px] text-green-800">Colors run from green (slow) to red (fast). Compensation removes whole-scene motion such as camera shake.</div>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">ZONES</div>
+        <div className="flex gap-1">
+          {drawButton('include', '+ WATCH ZONE')}
+          {drawButton('exclude', '+ IGNORE ZONE')}
+        </div>
+        {settings.zones.map(zone => (
+          <div key={zone.id} className="flex items-center gap-1">
+            <span className={`w-2 h-2 shrink-0 rounded-sm ${zone.kind === 'include' ? 'bg-green-500' : 'bg-red-500'}`} />
+            <input
+              value={zone.name}
+              onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+              className={inputClass}
+              aria-label="Zone name"
+            />
+            <button
+              onClick={() => removeZone(zone.id)}
+              className="text-green-800 hover:text-red-400 transition-colors p-1"
+              aria-label={`Delete zone ${zone.name}`}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {settings.zones.length === 0 && (
+          <div className="text-[10px] text-green-800">Watch zones log enter/leave events. Ignore zones mask out motion.</div>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">AUTO AUDIT</div>
+        <label className="flex items-center gap-2 text-xs text-green-500">
+          <input
+            type="checkbox"
+            checked={settings.autoAudit}
+            onChange={(e) => updateMotionSettings({ autoAudit: e.target.checked })}
+            className="accent-green-500"
+          />
+          Audit regions entering watch zones
+        </label>
+        <label className="block">
+          <span className={labelClass}>Cooldown (s)</span>
+          <input
+            type="number"
+            min={5}
+            step={5}
+            value={settings.autoAuditCooldownSec}
+            onChange={(e) => updateMotionSettings({ autoAuditCooldownSec: Math.max(5, Math.round(Number(e.target.value))) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default MotionPanel;
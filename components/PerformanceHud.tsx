@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import type { PerfReading } from '../lib/perfMonitor';
+
+interface PerformanceHudProps {
+  // Polled a few times a second; the render loop keeps the numbers current
+  read: () => PerfReading | null;
+  className?: string;
+}
+
+const REFRESH_MS = 250;
+
+const ms = (value: number) => value.toFixed(1).padStart(5);
+
+// Text overlay over the canvas, so it never shows up in snapshots or recordings
+const PerformanceHud: React.FC<PerformanceHudProps> = ({ read, className = '' }) => {
+  const [reading, setReading] = useState<PerfReading | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      const next = read();
+      // The stats object is updated in place, so copy what is shown
+      setReading(next && { ...next, stats: { ...next.stats, stages: { ...next.stats.stages } } });
+    };
+    update();
+    const timer = setInterval(update, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [read]);
+
+  if (!reading) return null;
+  const { stats } = reading;
+  const { stages } = stats;
+  const degraded = reading.qualityLevel > 0;
+
+  return (
+    <div
+      className={`pointer-events-none font-mono text-[10px] leading-tight text-green-400 bg-black/70 border border-green-900 rounded px-2 py-1 whitespace-pre ${className}`}
+      aria-label="Performance"
+    >
+      <div className="text-green-300">{`${stats.fps.toFixed(0).padStart(3)} fps  ${ms(stats.frameTime)} ms/frame`}</div>
+      <div>{`work     ${ms(stats.work)} ms`}</div>
+      <div>{`draw     ${ms(stages.draw)} ms  ${reading.backend}`}</div>
+      <div className="text-green-700">{`analysis ${stats.analysisFps.toFixed(0).padStart(3)} /s  ${reading.analyzer}`}</div>
+      <div>{`downsample ${ms(stages.downsample)} ms`}</div>
+      <div>{`luma       ${ms(stages.luma)} ms`}</div>
+      <div>{`edges      ${ms(stages.edges)} ms`}</div>
+      <div>{`flow       ${ms(stages.flow)} ms`}</div>
+      <div>{`motion     ${ms(stages.motion)} ms`}</div>
+      <div className="text-green-700">{`grid ${reading.cols}×${reading.rows} @ ${reading.cellSize}px`}</div>
+      {degraded && (
+        <div className="text-amber-400">
+          {`quality -${reading.qualityLevel}: cell ${reading.baseCellSize}→${reading.cellSize}px, analyze 1/${reading.analysisEvery}`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformanceHud;
@@ -0,0 +1,154 @@
+import React, { useSyncExternalStore } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { PROVIDERS, ProviderId } from '../services/visionProviders';
+import {
+  getProviderSettings,
+  resetProviderSettings,
+  subscribeProviderSettings,
+  updateProviderConfig,
+  updateProviderSettings
+} from '../services/providerSettings';
+
+interface ProviderSettingsPanelProps {
+  onClose?: () => void;
+}
+
+const inputClass = 'w-full bg-black border border-green-900 text-green-400 text-xs px-2 py-1 rounded focus:outline-none focus:border-green-600';
+const labelClass = 'block text-[10px] uppercase tracking-wider text-green-700 mb-0.5';
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ onClose }) => {
+  const settings = useSyncExternalStore(subscribeProviderSettings, getProviderSettings);
+  const config = settings.configs[settings.active];
+  const provider = PROVIDERS.find(p => p.id === settings.active);
+
+  return (
+    <div className="w-80 max-h-full overflow-y-auto custom-scrollbar border border-green-900 bg-black/95 rounded-lg shadow-[0_0_15px_rgba(0,255,0,0.1)] font-mono text-sm p-3 space-y-2">
+      <div className="flex justify-between items-center select-none">
+        <span className="text-green-500 font-bold">VISION_UPLINK</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={resetProviderSettings}
+            className="text-green-800 hover:text-green-500 transition-colors p-1"
+            aria-label="Reset provider settings"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-green-800 hover:text-green-500 transition-colors p-1"
+              aria-label="Close provider settings"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>Provider</span>
+        <select
+          value={settings.active}
+          onChange={(e) => updateProviderSettings({ active: e.target.value as ProviderId })}
+          className={inputClass}
+        >
+          {PROVIDERS.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        <span className={labelClass}>Base URL</span>
+        <input
+          value={config.baseUrl}
+          placeholder="provider default"
+          onChange={(e) => updateProviderConfig(settings.active, { baseUrl: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block">
+        <span className={labelClass}>Model</span>
+        <input
+          value={config.model}
+          onChange={(e) => updateProviderConfig(settings.active, { model: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block">
+        <span className={labelClass}>API Key</span>
+        <input
+          type="password"
+          value={config.apiKey}
+          placeholder={provider?.envApiKey ? 'build-time key' : undefined}
+          autoComplete="off"
+          onChange={(e) => updateProviderConfig(settings.active, { apiKey: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block">
+          <span className={labelClass}>Temp</span>
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={config.temperature}
+            onChange={(e) => updateProviderConfig(settings.active, { temperature: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClass}>Tokens</span>
+          <input
+            type="number"
+            min={1}
+            step={10}
+            value={config.maxTokens}
+            onChange={(e) => updateProviderConfig(settings.active, { maxTokens: Math.max(1, Math.round(Number(e.target.value))) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClass}>Words</span>
+          <input
+            type="number"
+            min={1}
+            step={5}
+            value={settings.maxWords}
+            onChange={(e) => updateProviderSettings({ maxWords: Math.max(1, Math.round(Number(e.target.value))) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-green-500">
+        <input
+          type="checkbox"
+          checked={settings.structured}
+          onChange={(e) => updateProviderSettings({ structured: e.target.checked })}
+          className="accent-green-500"
+        />
+        Structured output: JSON + boxes
+        {provider && !provider.structured && <span className="text-green-800">(not supported by {provider.label})</span>}
+      </label>
+
+      <label className="block">
+        <span className={labelClass}>Prompt Template</span>
+        <textarea
+          value={settings.promptTemplate}
+          rows={7}
+          onChange={(e) => updateProviderSettings({ promptTemplate: e.target.value })}
+          className={`${inputClass} resize-y`}
+        />
+        <span className="block text-[10px] text-green-800 mt-0.5">{'{{maxWords}} {{context}} {{timestamp}}'}</span>
+      </label>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -1,316 +1,773 @@
-import React, { useEffect, useRef, forwardRef, useImperativeHandle, useState } from 'react';
+import React, { useCallback, useEffect, useRef, forwardRef, useImperativeHandle, useState } from 'react';
+import { ExternalLink, RotateCcw } from 'lucide-react';
+import { createGridRenderer, GridFrame, RendererBackend } from '../lib/gridRenderer';
+import { createFrameAnalyzer, FrameAnalyzer } from '../lib/frameAnalyzer';
+import { cloneAnalysis, FrameAnalysis } from '../lib/frameAnalysis';
+import { DEFAULT_PALETTE, PaletteId } from '../lib/palettes';
+import { drawScanOverlay } from '../lib/scanOverlay';
+import {
+  analysisParams,
+  DEFAULT_RENDER_PARAMS,
+  layerParams,
+  rainParams,
+  RenderParams,
+  shadingParams
+} from '../lib/renderParams';
+import { createRainSimulation } from '../lib/digitalRain';
+import { createSceneCompositor, SceneLayer } from '../lib/sceneLayers';
+import { drawFlowOverlay, FlowDisplay } from '../lib/flowOverlay';
+import type { FlowField } from '../lib/opticalFlow';
+import { DEFAULT_GLYPH_TABLE, GlyphTable } from '../lib/glyphSets';
+import { createPerfMonitor, PerfReading } from '../lib/perfMonitor';
+import { createQualityGovernor, QUALITY_LEVELS } from '../lib/adaptiveQuality';
+import {
+  createHeightFieldRenderer,
+  DEFAULT_ORBIT,
+  DEFAULT_SPATIAL_OPTIONS,
+  OrbitCamera,
+  SpatialOptions
+} from '../lib/heightField';
+import type { CalibrationProfile } from '../lib/calibration';
+import {
+  createMotionMonitor,
+  MotionRegion,
+  MotionZone,
+  normalizeRect,
+  NormalizedRect,
+  ZoneEvent,
+  ZoneKind
+} from '../lib/motionRegions';
+import { drawMotionOverlay } from '../lib/motionOverlay';
+import { AudioMapping, DEFAULT_AUDIO_MAPPING, modulate, NEUTRAL_MODULATION } from '../lib/audioMapping';
+import type { Detection } from '../lib/detections';
+import { clampViewport, DEFAULT_VIEWPORT, Viewport, viewportCrop } from '../lib/viewport';
+import { useViewportGestures } from '../hooks/useViewportGestures';
+import type { AudioInput } from '../services/audioInput';
+import { openPopout, Popout, PopoutKind } from '../services/popout';
+import { DEFAULT_PERFORMANCE_SETTINGS, PerformanceSettings } from '../services/performanceSettings';
+import { MapMode, ViewMode } from '../types';
+import { InputSource, InputSourceSpec, openInputSource } from '../services/inputSources';
+import { CameraErrorKind, toCameraError } from '../services/cameraManager';
+import VideoFileControls from './VideoFileControls';
+import PerformanceHud from './PerformanceHud';
+import SpatialVisualizer from './SpatialVisualizer';
+import DetectionOverlay from './DetectionOverlay';
+import RegionSelection from './RegionSelection';
 
 interface RealityMapperProps {
-  selectedDeviceId?: string;
-  onStreamActive?: () => void;
+  // Reports the camera device actually in use, after the first open and after every recovery
+  onStreamActive?: (deviceId?: string) => void;
+  palette?: PaletteId;
+  onPaletteChange?: (palette: PaletteId) => void;
+  mode?: MapMode;
+  source?: InputSourceSpec;
+  onSourceEnded?: (label: string) => void;
+  onSourceRecovered?: (label: string) => void;
+  params?: RenderParams;
+  // Sensor profile for the active camera, applied inside the analyzer
+  calibration?: CalibrationProfile | null;
+  motion?: MotionOptions;
+  // Called once per analyzed frame that produced zone enter/leave events
+  onMotionEvents?: (events: ZoneEvent[]) => void;
+  // While set, dragging on the canvas draws a zone of this kind instead of passing the pointer through
+  zoneDraw?: ZoneKind | null;
+  onZoneDrawn?: (kind: ZoneKind, rect: NormalizedRect) => void;
+  // Live microphone; null renders without audio modulation
+  audio?: AudioInput | null;
+  audioMapping?: AudioMapping;
+  glyphs?: GlyphTable;
+  // Called when the canvas is detached into Picture-in-Picture (with its kind) and when it comes back (null)
+  onPopoutChange?: (kind: PopoutKind | null) => void;
+  perf?: PerformanceSettings;
+  // Called when adaptive quality steps up or down, with the cell size now in use
+  onQualityChange?: (level: number, cellSize: number) => void;
+  view?: ViewMode;
+  spatial?: SpatialOptions;
+  scene?: SceneLayer;
+  // Holds the learned background as it is, once it has warmed up
+  backgroundFrozen?: boolean;
+  // Boxes from the latest structured audit, drawn over the flat view
+  detections?: Detection[];
+  // While set (and no zone is being drawn), dragging on the canvas selects a region instead of panning
+  regionSelect?: boolean;
+  onRegionSelected?: (rect: NormalizedRect) => void;
+  // Called when a zoom or pan ends; normalized rects taken before it no longer match the picture
+  onViewportChange?: (viewport: Viewport) => void;
+}
+
+export interface MotionOptions {
+  enabled: boolean;
+  threshold: number;
+  minCells: number;
+  showRegions: boolean;
+  zones: MotionZone[];
+  flowDisplay: FlowDisplay;
+  flowMinSpeed: number;
 }
 
 export interface RealityMapperHandle {
-  getSnapshot: () => string | null;
+  // PNG data URL of the canvas, or of just `rect` (normalized to the canvas) when given
+  getSnapshot: (rect?: NormalizedRect) => string | null;
+  // Copy of the latest sensor grids (luma, edges, motion history, ...)
+  getAnalysis: () => FrameAnalysis | null;
+  getRendererBackend: () => RendererBackend | null;
+  getCanvas: () => HTMLCanvasElement | null;
+  getInputSource: () => InputSource | null;
+  // Called with every rendered frame; buffers are only valid during the call
+  subscribeFrames: (listener: (frame: GridFrame) => void) => () => void;
+  getPalette: () => PaletteId;
+  setPalette: (palette: PaletteId) => void;
+  // Cell size in use, which adaptive quality may have raised above the configured one
+  getCellSize: () => number;
+  // Latest timings for the performance HUD; null before the first frame
+  getPerformance: () => PerfReading | null;
+  // Regions tracked in the last analyzed frame (empty while motion detection is off)
+  getMotionRegions: () => MotionRegion[];
+  // Copy of the latest optical flow field; null before the second analyzed frame
+  getFlow: () => FlowField | null;
+  // Discards the learned background and learns it again from the next frames
+  relearnBackground: () => void;
+  // Digital zoom and pan of the flat view
+  getViewport: () => Viewport;
+  setViewport: (viewport: Viewport) => void;
+  // Detaches the canvas into Picture-in-Picture; must be called from a user gesture
+  popout: () => Promise<PopoutKind>;
+  closePopout: () => void;
 }
 
-const FONT_SIZE = 8;
+const DEFAULT_SOURCE: InputSourceSpec = { kind: 'camera' };
+
+const NO_DETECTIONS: Detection[] = [];
+
+const DEFAULT_MOTION: MotionOptions = {
+  enabled: false,
+  threshold: 0.05,
+  minCells: 6,
+  showRegions: true,
+  zones: [],
+  flowDisplay: 'off',
+  flowMinSpeed: 0.25
+};
+
+// Drafts smaller than this (normalized) are treated as a click, not a zone
+const MIN_ZONE_SIZE = 0.01;
+// Frame interval while video Picture-in-Picture mirrors a hidden tab, which gets no animation frames
+const HIDDEN_FRAME_MS = 1000 / 30;
+
+interface SourceError {
+  message: string;
+  kind?: CameraErrorKind;
+}
+
+const CAMERA_ERROR_COPY: Record<CameraErrorKind, { title: string; hint: string }> = {
+  'permission-denied': { title: 'CAMERA ACCESS DENIED', hint: 'Allow camera permission in the browser site settings, then retry' },
+  'not-found': { title: 'NO CAMERA FOUND', hint: 'Connect a camera or pick another device, then retry' },
+  'busy': { title: 'CAMERA BUSY', hint: 'Close other apps using the camera, then retry' },
+  'unsupported': { title: 'CAMERA UNSUPPORTED', hint: 'Camera capture needs a secure (https) context' },
+  'unknown': { title: 'CAMERA ERROR', hint: 'Check the camera connection, then retry' }
+};
+
+// Split once per change rather than once per frame
+const splitParams = (p: RenderParams) => ({
+  fontSize: p.fontSize,
+  shading: shadingParams(p),
+  analysis: analysisParams(p),
+  rain: rainParams(p),
+  layers: layerParams(p)
+});
 
 const RealityMapper = forwardRef<RealityMapperHandle, RealityMapperProps>((props, ref) => {
   const { 
-    selectedDeviceId,
-    onStreamActive
+    onStreamActive,
+    palette = DEFAULT_PALETTE,
+    onPaletteChange,
+    mode = MapMode.IDLE,
+    source = DEFAULT_SOURCE,
+    onSourceEnded,
+    onSourceRecovered,
+    params = DEFAULT_RENDER_PARAMS,
+    calibration = null,
+    motion = DEFAULT_MOTION,
+    onMotionEvents,
+    zoneDraw = null,
+    onZoneDrawn,
+    audio = null,
+    audioMapping = DEFAULT_AUDIO_MAPPING,
+    glyphs = DEFAULT_GLYPH_TABLE,
+    onPopoutChange,
+    perf = DEFAULT_PERFORMANCE_SETTINGS,
+    onQualityChange,
+    view = 'flat',
+    spatial = DEFAULT_SPATIAL_OPTIONS,
+    scene = 'live',
+    backgroundFrozen = false,
+    detections = NO_DETECTIONS,
+    regionSelect = false,
+    onRegionSelected,
+    onViewportChange
   } = props;
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | null>(null);
-  const [cameraError, setCameraError] = useState<string | null>(null);
-  const [cameraReady, setCameraReady] = useState(false);
-
-  const lumaBufferRef = useRef<Float32Array | null>(null);
-  const prevLumaRef = useRef<Float32Array | null>(null);
-  
-  const smallCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const smallCtxRef = useRef<CanvasRenderingContext2D | null>(null);
-  
+  // Reschedules the render loop on the window that now owns the canvas
+  const resumeRenderRef = useRef<(() => void) | null>(null);
+  const popoutRef = useRef<Popout | null>(null);
+  const [popoutKind, setPopoutKind] = useState<PopoutKind | null>(null);
+  // Backing-store size while video PiP mirrors the canvas; null follows the canvas layout size
+  const renderSizeRef = useRef<{ width: number; height: number } | null>(null);
+  const [sourceError, setSourceError] = useState<SourceError | null>(null);
+  const [sourceReady, setSourceReady] = useState(false);
+  const [sourceStatus, setSourceStatus] = useState<string | null>(null);
+  // Bumped by the retry button to reopen the same source
+  const [attempt, setAttempt] = useState(0);
+  const sourceRef = useRef<InputSource | null>(null);
+
   const rainPhaseRef = useRef(0);
   const frameCountRef = useRef(0);
+  const backendRef = useRef<RendererBackend | null>(null);
+  const analyzerRef = useRef<FrameAnalyzer | null>(null);
+  const frameListenersRef = useRef(new Set<(frame: GridFrame) => void>());
 
-  // Scientific calibration state (behind-the-scenes, no visible effect by default)
-  const calRef = useRef({
-    darkLevel: 0.02,
-    whiteLevel: 0.95,
-    gain: 1.0,
-    offset: 0.0,
-    calibrated: false,
-    calibrationFrames: 0,
-    noiseFloor: 0.01,
-    edgeThresholdLow: 0.1,
-    edgeThresholdHigh: 0.2,
-    exposureGain: 1.0,
-    signalMean: 0.5,
-    motionHistory: new Float32Array(0) as Float32Array
-  });
+  // Read by the render loop every frame, so switching never restarts the stream
+  const paletteRef = useRef<PaletteId>(palette);
+
+  useEffect(() => {
+    paletteRef.current = palette;
+  }, [palette]);
+
+  const paramsRef = useRef(splitParams(params));
+
+  useEffect(() => {
+    paramsRef.current = splitParams(params);
+  }, [params]);
+
+  const calibrationRef = useRef<CalibrationProfile | null>(calibration);
+
+  useEffect(() => {
+    calibrationRef.current = calibration;
+    analyzerRef.current?.setCalibration(calibration);
+  }, [calibration]);
+
+  const sceneRef = useRef(scene);
+  sceneRef.current = scene;
+  const backgroundFrozenRef = useRef(backgroundFrozen);
+
+  useEffect(() => {
+    backgroundFrozenRef.current = backgroundFrozen;
+    analyzerRef.current?.background(backgroundFrozen ? 'freeze' : 'resume');
+  }, [backgroundFrozen]);
+
+  // The render loop outlives renders, so it reads motion options and the event callback through refs
+  const motionRef = useRef(motion);
+  motionRef.current = motion;
+  const onMotionEventsRef = useRef(onMotionEvents);
+  onMotionEventsRef.current = onMotionEvents;
+  const regionsRef = useRef<MotionRegion[]>([]);
+  const zoneDrawRef = useRef(zoneDraw);
+  zoneDrawRef.current = zoneDraw;
+  const audioRef = useRef(audio);
+  audioRef.current = audio;
+  const audioMappingRef = useRef(audioMapping);
+  audioMappingRef.current = audioMapping;
+  const glyphsRef = useRef(glyphs);
+  glyphsRef.current = glyphs;
+  const perfRef = useRef(perf);
+  perfRef.current = perf;
+  const onQualityChangeRef = useRef(onQualityChange);
+  onQualityChangeRef.current = onQualityChange;
+  const cellSizeRef = useRef(params.fontSize);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const spatialRef = useRef(spatial);
+  spatialRef.current = spatial;
+  // Kept across view switches, so returning to 3D resumes from the same angle
+  const orbitRef = useRef<OrbitCamera>(DEFAULT_ORBIT);
+  const perfReadingRef = useRef<PerfReading | null>(null);
+  const readPerformance = useCallback(() => perfReadingRef.current, []);
+  const draftRef = useRef<{ kind: ZoneKind; start: { x: number; y: number }; rect: NormalizedRect } | null>(null);
+  const regionStartRef = useRef<{ x: number; y: number } | null>(null);
+  const [regionDraft, setRegionDraft] = useState<NormalizedRect | null>(null);
+
+  // Read by the render loop; gestures write it directly and report once they end
+  const viewportRef = useRef<Viewport>(DEFAULT_VIEWPORT);
+  const [zoom, setZoom] = useState(DEFAULT_VIEWPORT.zoom);
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
+
+  // Cells now see other parts of the scene, so the learned background no longer applies
+  const applyViewport = (next: Viewport) => {
+    viewportRef.current = clampViewport(next);
+    setZoom(viewportRef.current.zoom);
+    analyzerRef.current?.background('relearn');
+    onViewportChangeRef.current?.(viewportRef.current);
+  };
+  const gestures = useViewportGestures(viewportRef, applyViewport);
+
+  const modeRef = useRef({ mode, since: performance.now() });
+
+  useEffect(() => {
+    modeRef.current = { mode, since: performance.now() };
+  }, [mode]);
+
+  const finishPopout = () => {
+    popoutRef.current = null;
+    renderSizeRef.current = null;
+    // A document popout took the pending frame with its window
+    resumeRenderRef.current?.();
+    setPopoutKind(null);
+    onPopoutChange?.(null);
+  };
+
+  const closePopout = () => {
+    const popout = popoutRef.current;
+    if (!popout) return;
+    popout.close();
+    finishPopout();
+  };
 
   useImperativeHandle(ref, () => ({
-    getSnapshot: () => {
-      if (!canvasRef.current) return null;
-      return canvasRef.current.toDataURL('image/png');
-    }
+    getSnapshot: (rect) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return null;
+      if (!rect) return canvas.toDataURL('image/png');
+      const sx = Math.round(rect.x * canvas.width), sy = Math.round(rect.y * canvas.height);
+      const sw = Math.max(1, Math.round(rect.w * canvas.width)), sh = Math.max(1, Math.round(rect.h * canvas.height));
+      const crop = document.createElement('canvas');
+      crop.width = sw;
+      crop.height = sh;
+      crop.getContext('2d')?.drawImage(canvas, sx, sy, sw, sh, 0, 0, sw, sh);
+      return crop.toDataURL('image/png');
+    },
+    getAnalysis: () => {
+      const latest = analyzerRef.current?.latest();
+      return latest ? cloneAnalysis(latest) : null;
+    },
+    getRendererBackend: () => backendRef.current,
+    getCanvas: () => canvasRef.current,
+    getInputSource: () => sourceRef.current,
+    subscribeFrames: (listener) => {
+      frameListenersRef.current.add(listener);
+      return () => { frameListenersRef.current.delete(listener); };
+    },
+    getPalette: () => paletteRef.current,
+    setPalette: (next: PaletteId) => {
+      paletteRef.current = next;
+      onPaletteChange?.(next);
+    },
+    getCellSize: () => cellSizeRef.current,
+    getPerformance: readPerformance,
+    getMotionRegions: () => regionsRef.current,
+    getFlow: () => {
+      const latest = analyzerRef.current?.latest();
+      if (!latest || latest.sequence < 2) return null;
+      const { cols, rows, flowX, flowY, globalFlowX, globalFlowY } = latest;
+      return { cols, rows, flowX: flowX.slice(), flowY: flowY.slice(), globalFlowX, globalFlowY };
+    },
+    relearnBackground: () => analyzerRef.current?.background('relearn'),
+    getViewport: () => viewportRef.current,
+    setViewport: applyViewport,
+    popout: async () => {
+      const canvas = canvasRef.current;
+      if (!canvas) throw new Error('Canvas not mounted');
+      if (popoutRef.current) return popoutRef.current.kind;
+      const popout = await openPopout(canvas, {
+        onClose: () => {
+          if (popoutRef.current !== popout) return;
+          finishPopout();
+        },
+        onResize: (width, height) => {
+          renderSizeRef.current = { width: Math.round(width), height: Math.round(height) };
+        }
+      });
+      popoutRef.current = popout;
+      resumeRenderRef.current?.();
+      setPopoutKind(popout.kind);
+      onPopoutChange?.(popout.kind);
+      return popout.kind;
+    },
+    closePopout
   }));
 
+  useEffect(() => () => popoutRef.current?.close(), []);
+
   useEffect(() => {
-    let activeStream: MediaStream | null = null;
+    const video = videoRef.current;
+    if (!video) return;
+    let opened: InputSource | null = null;
     let isCancelled = false;
 
-    const initSensors = async () => {
-      setCameraError(null);
+    const describe = (err: any): SourceError =>
+      source.kind === 'camera'
+        ? { message: err?.message || 'Camera not available', kind: toCameraError(err).kind }
+        : { message: err?.message || err?.name || 'Input source not available' };
+
+    const initSource = async () => {
+      setSourceError(null);
+      setSourceReady(false);
+      setSourceStatus(null);
       try {
-        let stream = null;
-        try {
-          stream = await navigator.mediaDevices.getUserMedia({ 
-            video: { facingMode: "environment" } 
-          });
-        } catch (e) {
-          stream = await navigator.mediaDevices.getUserMedia({ 
-            video: true 
-          });
-        }
-        
-        if (isCancelled) { stream.getTracks().forEach(t => t.stop()); return; }
-        activeStream = stream;
-        
-        if (videoRef.current) { 
-          videoRef.current.srcObject = stream; 
-          await videoRef.current.play();
-          setCameraReady(true);
-          onStreamActive?.();
-        }
+        const next = await openInputSource(source, {
+          video,
+          onEnded: (err) => {
+            if (isCancelled) return;
+            setSourceReady(false);
+            setSourceStatus(null);
+            setSourceError(err ? describe(err) : { message: `${next.label} stopped` });
+            onSourceEnded?.(next.label);
+          },
+          onRecovering: () => {
+            if (isCancelled) return;
+            setSourceReady(false);
+            setSourceStatus('Camera signal lost. Reacquiring...');
+          },
+          onRecovered: (label) => {
+            if (isCancelled) return;
+            setSourceReady(true);
+            setSourceStatus(null);
+            onSourceRecovered?.(label);
+            onStreamActive?.(next.deviceId?.());
+          }
+        });
+        if (isCancelled) { next.dispose(); return; }
+        opened = next;
+        sourceRef.current = next;
+        setSourceReady(true);
+        if (source.kind === 'camera') onStreamActive?.(next.deviceId?.());
       } catch (err: any) {
-        console.error('Camera error:', err);
-        setCameraError(err.message || err.name || "Camera not available");
+        console.error('Input source error:', err);
+        if (!isCancelled) setSourceError(describe(err));
       }
     };
 
-    initSensors();
+    initSource();
 
     return () => {
       isCancelled = true;
-      activeStream?.getTracks().forEach(t => t.stop());
+      if (opened && sourceRef.current === opened) sourceRef.current = null;
+      opened?.dispose();
     };
-  }, [selectedDeviceId, cameraReady]);
+  }, [source, attempt]);
 
   useEffect(() => {
-    if (!cameraReady) return;
-    
     const canvas = canvasRef.current;
-    const video = videoRef.current;
-    if (!canvas || !video) return;
+    if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    if (!smallCanvasRef.current) {
-      smallCanvasRef.current = document.createElement('canvas');
-      smallCtxRef.current = smallCanvasRef.current.getContext('2d', { willReadFrequently: true });
-    }
-    const smallCanvas = smallCanvasRef.current;
-    const smallCtx = smallCtxRef.current;
+    const renderer = createGridRenderer();
+    const heightField = createHeightFieldRenderer();
+    const analyzer = createFrameAnalyzer();
+    const monitor = createMotionMonitor();
+    const rainSim = createRainSimulation();
+    const compositor = createSceneCompositor();
+    const perfMonitor = createPerfMonitor();
+    const governor = createQualityGovernor();
+    let tick = 0;
+    let lastSequence = -1;
+    let lastRender = performance.now();
+    let columnBuffer = new Float32Array(0);
+    analyzerRef.current = analyzer;
+    analyzer.setCalibration(calibrationRef.current);
+    if (backgroundFrozenRef.current) analyzer.background('freeze');
+    backendRef.current = renderer.backend;
 
     const render = () => {
-      if (!video) return;
-      
-      const displayWidth = canvas.clientWidth || 800;
-      const displayHeight = canvas.clientHeight || 600;
+      const displayWidth = renderSizeRef.current?.width || canvas.clientWidth || 800;
+      const displayHeight = renderSizeRef.current?.height || canvas.clientHeight || 600;
       
       if (canvas.width !== displayWidth || canvas.height !== displayHeight) {
         canvas.width = displayWidth;
         canvas.height = displayHeight;
       }
 
-      const cols = Math.ceil(canvas.width / FONT_SIZE);
-      const rows = Math.ceil(canvas.height / FONT_SIZE);
-      const numCells = cols * rows;
-
-      if (smallCtx && cols > 0 && rows > 0 && video.readyState >= 2) {
-        smallCanvas.width = cols;
-        smallCanvas.height = rows;
-        
-        const videoAspect = video.videoWidth / video.videoHeight;
-        const canvasAspect = cols / rows;
-        
-        let sx = 0, sy = 0, sw = video.videoWidth || 640, sh = video.videoHeight || 480;
-
-        if (canvasAspect > videoAspect) {
-           sh = sw / canvasAspect;
-           sy = (video.videoHeight - sh) / 2;
-        } else {
-           sw = sh * canvasAspect;
-           sx = (video.videoWidth - sw) / 2;
-        }
-
-        smallCtx.drawImage(video, sx, sy, sw, sh, 0, 0, cols, rows);
-        const pixels = smallCtx.getImageData(0, 0, cols, rows).data;
+      const now = performance.now();
+      const dt = (now - lastRender) / 1000;
+      lastRender = now;
+      const { fontSize, shading, analysis: analysisOptions, rain: rainOptions, layers } = paramsRef.current;
+      const perfOptions = perfRef.current;
+      if (!perfOptions.adaptive && governor.level() > 0) {
+        governor.reset();
+        onQualityChangeRef.current?.(0, fontSize);
+      }
+      const quality = QUALITY_LEVELS[governor.level()];
+      const cellSize = Math.round(fontSize * quality.cellScale);
+      cellSizeRef.current = cellSize;
+      const cols = Math.ceil(canvas.width / cellSize);
+      const rows = Math.ceil(canvas.height / cellSize);
+      let drawTime = 0;
 
-        if (!lumaBufferRef.current || lumaBufferRef.current.length !== numCells) {
-          lumaBufferRef.current = new Float32Array(numCells);
-          prevLumaRef.current = new Float32Array(numCells);
-        }
-        
-        const luma = lumaBufferRef.current;
-        const prevLuma = prevLumaRef.current;
-        const cal = calRef.current;
-
-        // Calculate luma (Rec. 709 coefficients - scientific standard)
-        for (let i = 0; i < numCells; i++) {
-          const ix = i << 2;
-          // Precise Rec. 709 coefficients (behind-the-scenes)
-          const raw = (pixels[ix] * 0.2126 + pixels[ix + 1] * 0.7152 + pixels[ix + 2] * 0.0722) / 255;
-          
-          // Scientific calibration (behind-the-scenes, no visible effect yet)
-          let calibrated = (raw + cal.offset) * cal.gain;
-          calibrated = Math.max(0, Math.min(1, calibrated));
-          
-          // Adaptive exposure (subtle, behind-the-scenes)
-          calibrated = calibrated * cal.exposureGain;
-          
-          luma[i] = calibrated;
-        }
+      const input = sourceRef.current;
+      if (input && cols > 0 && rows > 0 && input.isReady() && tick++ % quality.analysisEvery === 0) {
+        input.tick?.(now);
+        // Frames arriving while the analyzer is busy are dropped, never queued
+        const crop = viewportCrop(input.width(), input.height(), cols, rows, viewportRef.current);
+        analyzer.submit(input.element, crop, cols, rows, analysisOptions);
+      }
 
-        // Track scene statistics (behind-the-scenes)
-        let sum = 0;
-        let minL = 1, maxL = 0;
-        for (let i = 0; i < numCells; i++) {
-          sum += luma[i];
-          if (luma[i] < minL) minL = luma[i];
-          if (luma[i] > maxL) maxL = luma[i];
-        }
-        cal.signalMean = sum / numCells;
-        
-        // Auto exposure (behind-the-scenes, subtle)
-        const targetMean = 0.45;
-        const error = targetMean - cal.signalMean;
-        cal.exposureGain += error * 0.01;
-        cal.exposureGain = Math.max(0.7, Math.min(1.5, cal.exposureGain));
-
-        // Initialize motion history
-        if (cal.motionHistory.length !== numCells) {
-          cal.motionHistory = new Float32Array(numCells);
-        }
+      const analysis = analyzer.latest();
+      // Audio advances even without a picture so the level meter keeps moving
+      const audioInput = audioRef.current;
+      const mod = audioInput
+        ? modulate(audioInput.update(now), audioMappingRef.current, analysis?.cols ?? 0, columnBuffer)
+        : NEUTRAL_MODULATION;
+      if (mod.columnGain) columnBuffer = mod.columnGain;
 
-        // Calculate edges (Canny-style, behind-the-scenes)
-        const edges = new Float32Array(numCells);
-        for (let r = 1; r < rows - 1; r++) {
-          for (let c = 1; c < cols - 1; c++) {
-            const i = r * cols + c;
-            const l = luma[i];
-            const l_left = luma[i - 1];
-            const l_right = luma[i + 1];
-            const l_up = luma[i - cols];
-            const l_down = luma[i + cols];
-            edges[i] = Math.abs(4 * l - l_left - l_right - l_up - l_down);
-          }
-        }
+      const spatialView = viewRef.current === 'spatial';
+      if (analysis) {
+        const fresh = analysis.sequence !== lastSequence;
+        if (fresh) perfMonitor.analysis(analysis.timings, now);
 
         // Update animation phase
         frameCountRef.current++;
-        rainPhaseRef.current += 0.05;
+        rainPhaseRef.current += 0.05 * mod.rainSpeed;
+        const rain = shading.rainLevel > 0 && !spatialView
+          ? rainSim.update(analysis.cols, analysis.rows, dt, rainOptions, analysis, mod.rainSpeed)
+          : null;
 
-        // Clear canvas
-        ctx.fillStyle = '#000000';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        ctx.font = `bold ${FONT_SIZE}px 'Fira Code', monospace`;
-        ctx.textBaseline = 'top';
-
-        // Render FULL grid
-        for (let row = 0; row < rows; row++) {
-          for (let col = 0; col < cols; col++) {
-            const i = row * cols + col;
-            const l = luma[i];
-            const edge = edges[i];
-            const motion = prevLuma[i] ? Math.abs(luma[i] - prevLuma[i]) : 0;
-            
-            // Motion tracking (behind-the-scenes)
-            cal.motionHistory[i] = cal.motionHistory[i] * 0.7 + motion * 0.3;
-            
-            // Show character based on luminance (same threshold as before)
-            const showChar = l > 0.08;
-            
-            if (showChar) {
-              let brightness = l;
-              
-              // Edge enhancement (same as before)
-              if (edge > 0.1) {
-                brightness = Math.min(1, brightness + edge * 1.5);
-              }
-              
-              // Motion highlight (same as before)
-              if (motion > 0.05) {
-                brightness = Math.min(1, brightness + motion * 2);
-              }
-              
-              // Rain shimmer (same as before)
-              const shimmer = Math.sin(col * 0.3 + rainPhaseRef.current) * 0.1 + 0.9;
-              brightness *= shimmer;
-              
-              // Character alternation (same as before)
-              const char = ((row + col + Math.floor(rainPhaseRef.current * 2)) % 2 === 0) ? '1' : '0';
-              
-              // Color mapping (same as before)
-              let r, g, b;
-              
-              if (brightness > 0.8) {
-                const white = (brightness - 0.8) * 5;
-                r = Math.floor(200 * white);
-                g = 255;
-                b = Math.floor(200 * white);
-              } else if (brightness > 0.5) {
-                const green = (brightness - 0.5) * 2 * 255;
-                r = Math.floor(green * 0.25);
-                g = Math.floor(green);
-                b = Math.floor(green * 0.25);
-              } else if (brightness > 0.25) {
-                const green = brightness * 255;
-                r = Math.floor(green * 0.15);
-                g = Math.floor(green * 0.85);
-                b = Math.floor(green * 0.15);
-              } else {
-                const green = brightness * 180;
-                r = Math.floor(green * 0.1);
-                g = Math.floor(green);
-                b = Math.floor(green * 0.1);
-              }
-              
-              ctx.fillStyle = `rgb(${r},${g},${b})`;
-              ctx.fillText(char, col * FONT_SIZE, row * FONT_SIZE);
-            }
-          }
+        const frame: GridFrame = {
+          ...analysis,
+          ...compositor.compose(analysis, sceneRef.current, layers, dt),
+          cellSize,
+          phase: rainPhaseRef.current,
+          palette: paletteRef.current,
+          shading: mod.shimmer ? { ...shading, shimmer: Math.min(0.5, shading.shimmer + mod.shimmer) } : shading,
+          gain: mod.gain,
+          columnGain: mod.columnGain,
+          rain,
+          glyphs: glyphsRef.current,
+          flow: analysis
+        };
+        const drawStart = performance.now();
+        if (spatialView) {
+          heightField.draw(ctx, frame, orbitRef.current, spatialRef.current);
+        } else {
+          renderer.draw(ctx, frame);
+          const { flowDisplay, flowMinSpeed } = motionRef.current;
+          drawFlowOverlay(ctx, analysis, cellSize, flowDisplay, flowMinSpeed);
         }
-        
-        // Store for next frame
-        for (let i = 0; i < numCells; i++) {
-          prevLuma[i] = luma[i];
+        drawTime += performance.now() - drawStart;
+        frameListenersRef.current.forEach(listener => listener(frame));
+
+        const motionOptions = motionRef.current;
+        if (!motionOptions.enabled) {
+          if (regionsRef.current.length) {
+            monitor.reset();
+            regionsRef.current = [];
+          }
+        } else if (fresh) {
+          const { regions, events } = monitor.update(
+            analysis.motionHistory, analysis.cols, analysis.rows, motionOptions.zones, motionOptions, analysis
+          );
+          regionsRef.current = regions;
+          if (events.length) onMotionEventsRef.current?.(events);
         }
+        lastSequence = analysis.sequence;
       } else {
         ctx.fillStyle = '#000000';
         ctx.fillRect(0, 0, canvas.width || 800, canvas.height || 600);
       }
-      animationRef.current = requestAnimationFrame(render);
+
+      const overlayStart = performance.now();
+      const motionOptions = motionRef.current;
+      const draft = draftRef.current;
+      // Regions and zones are in flat grid coordinates, which the 3D view does not preserve
+      if (!spatialView && ((motionOptions.enabled && motionOptions.showRegions) || zoneDrawRef.current)) {
+        drawMotionOverlay(ctx, regionsRef.current, motionOptions.zones, cellSize, draft);
+      }
+
+      const { mode: currentMode, since } = modeRef.current;
+      drawScanOverlay(ctx, currentMode, now - since);
+      const end = performance.now();
+      drawTime += end - overlayStart;
+
+      perfMonitor.frame(now, end - now, drawTime);
+      const stats = perfMonitor.stats();
+      if (perfOptions.adaptive && governor.update(end, stats.frameTime, stats.work, perfOptions.targetFps)) {
+        onQualityChangeRef.current?.(governor.level(), Math.round(fontSize * QUALITY_LEVELS[governor.level()].cellScale));
+      }
+      perfReadingRef.current = {
+        stats,
+        cols,
+        rows,
+        cellSize,
+        baseCellSize: fontSize,
+        qualityLevel: governor.level(),
+        analysisEvery: quality.analysisEvery,
+        analyzer: analyzer.mode,
+        backend: renderer.backend
+      };
+      schedule();
     };
-    
+
+    // Frames come from whichever window currently holds the canvas: a hidden opener tab stops its own
+    // animation frames, but a Document Picture-in-Picture window keeps running. Video PiP leaves the canvas in
+    // the opener, so while that tab is hidden a timer drives the loop to keep the PiP video moving.
+    let frameWindow: Window = window;
+    let timed = false;
+    const schedule = () => {
+      frameWindow = canvas.ownerDocument.defaultView || window;
+      timed = popoutRef.current?.kind === 'video' && document.hidden;
+      animationRef.current = timed
+        ? window.setTimeout(render, HIDDEN_FRAME_MS)
+        : frameWindow.requestAnimationFrame(render);
+    };
+    const cancel = () => {
+      if (animationRef.current !== null) {
+        if (timed) window.clearTimeout(animationRef.current);
+        else frameWindow.cancelAnimationFrame(animationRef.current);
+      }
+      animationRef.current = null;
+    };
+    resumeRenderRef.current = () => {
+      cancel();
+      schedule();
+    };
+    const handleVisibilityChange = () => resumeRenderRef.current?.();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
     render();
-    return () => { if (animationRef.current) cancelAnimationFrame(animationRef.current); };
-  }, [selectedDeviceId, cameraReady]);
+    return () => {
+      cancel();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      resumeRenderRef.current = null;
+      renderer.dispose();
+      analyzer.dispose();
+      analyzerRef.current = null;
+    };
+  }, []);
+
+  const pointerToNormalized = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - bounds.top) / bounds.height))
+    };
+  };
+
+  // Zone drawing wins over region selection, which wins over panning
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (zoneDraw) {
+      const start = pointerToNormalized(e);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      draftRef.current = { kind: zoneDraw, start, rect: normalizeRect(start.x, start.y, start.x, start.y) };
+    } else if (regionSelect) {
+      const start = pointerToNormalized(e);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      regionStartRef.current = start;
+      setRegionDraft(normalizeRect(start.x, start.y, start.x, start.y));
+    } else if (view === 'flat') {
+      gestures.onPointerDown(e);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const draft = draftRef.current;
+    const regionStart = regionStartRef.current;
+    if (draft) {
+      const p = pointerToNormalized(e);
+      draft.rect = normalizeRect(draft.start.x, draft.start.y, p.x, p.y);
+    } else if (regionStart) {
+      const p = pointerToNormalized(e);
+      setRegionDraft(normalizeRect(regionStart.x, regionStart.y, p.x, p.y));
+    } else {
+      gestures.onPointerMove(e);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const draft = draftRef.current;
+    draftRef.current = null;
+    if (draft && draft.rect.w >= MIN_ZONE_SIZE && draft.rect.h >= MIN_ZONE_SIZE) {
+      onZoneDrawn?.(draft.kind, draft.rect);
+    }
+    const regionStart = regionStartRef.current;
+    regionStartRef.current = null;
+    if (regionStart) {
+      const p = pointerToNormalized(e);
+      const rect = normalizeRect(regionStart.x, regionStart.y, p.x, p.y);
+      setRegionDraft(null);
+      if (rect.w >= MIN_ZONE_SIZE && rect.h >= MIN_ZONE_SIZE) onRegionSelected?.(rect);
+    }
+    gestures.onPointerUp(e);
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    draftRef.current = null;
+    regionStartRef.current = null;
+    setRegionDraft(null);
+    gestures.onPointerUp(e);
+  };
+
+  const cursor = zoneDraw || regionSelect ? 'crosshair' : zoom > 1 ? 'grab' : 'default';
 
   return (
     <div className="relative w-full h-full min-h-[400px] bg-black overflow-hidden select-none">
       <video ref={videoRef} className="hidden" playsInline muted />
-      <canvas ref={canvasRef} className="block w-full h-full" style={{ minHeight: '400px', cursor: 'default' }} />
-      {!cameraReady && !cameraError && (
+      <canvas
+        ref={canvasRef}
+        className="block w-full h-full touch-none"
+        style={{ minHeight: '400px', cursor }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onWheel={view === 'flat' ? gestures.onWheel : undefined}
+      />
+      {popoutKind && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black text-center">
+          <ExternalLink className="w-6 h-6 text-green-700 mb-2" />
+          <span className="text-green-600 text-lg">VISION LAYER DETACHED</span>
+          <button
+            onClick={closePopout}
+            className="mt-4 border border-green-800 text-green-500 text-xs px-3 py-1 rounded hover:bg-green-900/30"
+          >
+            RETURN
+          </button>
+        </div>
+      )}
+      {view === 'spatial' && <SpatialVisualizer cameraRef={orbitRef} />}
+      {view === 'flat' && detections.length > 0 && <DetectionOverlay detections={detections} className="z-20" />}
+      {regionDraft && <RegionSelection rect={regionDraft} />}
+      {view === 'flat' && zoom > 1 && !popoutKind && (
+        <button
+          onClick={() => applyViewport(DEFAULT_VIEWPORT)}
+          className="absolute top-2 right-2 z-30 flex items-center gap-1 border border-green-800 bg-black/70 text-green-600 text-[10px] px-2 py-0.5 rounded hover:text-green-400"
+          title="Drag to pan, scroll or pinch to zoom"
+        >
+          <RotateCcw className="w-3 h-3" />
+          {`${zoom.toFixed(1)}× RESET ZOOM`}
+        </button>
+      )}
+      {perf.hud && <PerformanceHud read={readPerformance} className="absolute top-2 left-2 z-30" />}
+      {sourceReady && source.kind === 'file' && videoRef.current && (
+        <div className="absolute bottom-2 left-2 z-40">
+          <VideoFileControls video={videoRef.current} />
+        </div>
+      )}
+      {!sourceReady && !sourceError && (
         <div className="absolute inset-0 flex items-center justify-center">
-          <span className="text-green-600 text-lg">Starting camera...</span>
+          <span className="text-green-600 text-lg">
+            {sourceStatus || (source.kind === 'camera' ? 'Starting camera...' : 'Opening input...')}
+          </span>
         </div>
       )}
-      {cameraError && (
+      {sourceError && (
         <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black p-10 text-center">
-          <h2 className="text-red-500 font-bold text-2xl mb-4">CAMERA ERROR</h2>
-          <p className="text-red-400 text-lg mb-2">{cameraError}</p>
-          <p className="text-green-600 text-sm mt-4">Allow camera permission and refresh</p>
+          <h2 className="text-red-500 font-bold text-2xl mb-4">
+            {sourceError.kind ? CAMERA_ERROR_COPY[sourceError.kind].title : 'INPUT ERROR'}
+          </h2>
+          <p className="text-red-400 text-lg mb-2">{sourceError.message}</p>
+          {sourceError.kind && (
+            <p className="text-green-600 text-sm mt-4">{CAMERA_ERROR_COPY[sourceError.kind].hint}</p>
+          )}
+          <button
+            onClick={() => setAttempt(n => n + 1)}
+            className="mt-6 flex items-center gap-1 border border-green-800 text-green-500 text-xs px-3 py-1 rounded hover:bg-green-900/30"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            RETRY
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Circle, Square } from 'lucide-react';
+import { RECORDING_KINDS, RecordingKind } from '../services/recorder';
+import type { RecorderState } from '../hooks/useRecorder';
+
+interface RecorderControlsProps {
+  recorder: RecorderState;
+}
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+const RecorderControls: React.FC<RecorderControlsProps> = ({ recorder }) => {
+  const { kind, setKind, recording, elapsed, start, stop } = recorder;
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={kind}
+        disabled={recording}
+        onChange={(e) => setKind(e.target.value as RecordingKind)}
+        className="bg-black border border-green-800 text-green-500 text-xs px-2 py-1 rounded disabled:opacity-50"
+        aria-label="Recording format"
+      >
+        {RECORDING_KINDS.map(k => (
+          <option key={k.id} value={k.id}>{k.label}</option>
+        ))}
+      </select>
+      {recording ? (
+        <button
+          onClick={stop}
+          className="flex items-center gap-1 border border-red-800 text-red-500 text-xs px-2 py-1 rounded hover:bg-red-900/30"
+          aria-label="Stop recording"
+        >
+          <Square className="w-3 h-3 fill-current" />
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+          <span className="tabular-nums">{formatElapsed(elapsed)}</span>
+        </button>
+      ) : (
+        <button
+          onClick={() => start()}
+          className="flex items-center gap-1 border border-green-800 text-green-500 text-xs px-2 py-1 rounded hover:bg-green-900/30"
+          aria-label="Start recording"
+        >
+          <Circle className="w-3 h-3 fill-current text-red-500" />
+          REC
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RecorderControls;
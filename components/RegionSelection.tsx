@@ -0,0 +1,55 @@
+import React from 'react';
+import { Download, ScanLine, X } from 'lucide-react';
+import type { NormalizedRect } from '../lib/motionRegions';
+
+interface RegionSelectionProps {
+  rect: NormalizedRect;
+  // Without handlers only the outline is drawn, e.g. while the region is still being dragged
+  onAudit?: () => void;
+  onExport?: () => void;
+  onClear?: () => void;
+  // Locks the audit button while another audit runs
+  busy?: boolean;
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+
+const actionClass = 'flex items-center gap-1 border border-amber-700 bg-black/80 text-amber-400 text-[10px] px-2 py-0.5 rounded hover:bg-amber-900/30 disabled:opacity-40';
+
+// Rubber-band region of interest over the view, as DOM so it stays out of snapshots and recordings.
+// The actions sit under the region, or above it when it reaches the bottom edge.
+const RegionSelection: React.FC<RegionSelectionProps> = ({ rect, onAudit, onExport, onClear, busy = false }) => {
+  const below = rect.y + rect.h < 0.9;
+  return (
+    <div className="absolute inset-0 z-20 pointer-events-none">
+      <div
+        className="absolute border border-dashed border-amber-400 bg-amber-400/5"
+        style={{ left: pct(rect.x), top: pct(rect.y), width: pct(rect.w), height: pct(rect.h) }}
+      >
+        {(onAudit || onExport || onClear) && (
+          <div className={`absolute left-0 flex gap-1 pointer-events-auto ${below ? 'top-full mt-1' : 'bottom-full mb-1'}`}>
+            {onAudit && (
+              <button onClick={onAudit} disabled={busy} className={actionClass} title="Audit just this region">
+                <ScanLine className="w-3 h-3" />
+                AUDIT
+              </button>
+            )}
+            {onExport && (
+              <button onClick={onExport} className={actionClass} title="Save this region as PNG">
+                <Download className="w-3 h-3" />
+                EXPORT
+              </button>
+            )}
+            {onClear && (
+              <button onClick={onClear} className={actionClass} aria-label="Clear region">
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegionSelection;
@@ -0,0 +1,311 @@
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import { RotateCcw, Save, Share2, Trash2, Upload, X } from 'lucide-react';
+import { RENDER_PARAM_SPECS, RenderParamSpec } from '../lib/renderParams';
+import { GLYPH_SETS, GlyphMode, GlyphSetId, MAX_CUSTOM_GLYPHS } from '../lib/glyphSets';
+import { getGlyphSettings, getGlyphTable, subscribeGlyphSettings, updateGlyphSettings } from '../services/glyphSettings';
+import { TARGET_FPS_OPTIONS } from '../lib/adaptiveQuality';
+import {
+  getPerformanceSettings,
+  subscribePerformanceSettings,
+  updatePerformanceSettings
+} from '../services/performanceSettings';
+import { getSpatialOptions, MAX_RELIEF, subscribeSpatialOptions, updateSpatialOptions } from '../services/spatialSettings';
+import type { SpatialDepth, SpatialStyle } from '../lib/heightField';
+import { downloadBlob, timestampedFilename } from '../lib/download';
+import {
+  applyPreset,
+  deletePreset,
+  exportPreset,
+  getRenderSettings,
+  importPreset,
+  parsePreset,
+  presetShareUrl,
+  resetRenderParams,
+  savePreset,
+  subscribeRenderSettings,
+  updateRenderParams
+} from '../services/renderSettings';
+import type { LogEntry } from '../types';
+
+interface RenderSettingsPanelProps {
+  onClose?: () => void;
+  onLog?: (message: string, type?: LogEntry['type']) => void;
+}
+
+const inputClass = 'w-full bg-black border border-green-900 text-green-400 text-xs px-2 py-1 rounded focus:outline-none focus:border-green-600';
+const labelClass = 'block text-[10px] uppercase tracking-wider text-green-700 mb-0.5';
+const iconButtonClass = 'text-green-800 hover:text-green-500 transition-colors p-1 disabled:opacity-40 disabled:hover:text-green-800';
+
+const GROUPS: RenderParamSpec['group'][] = ['Grid', 'Shading', 'Rain', 'Edges', 'Exposure'];
+
+const decimals = (step: number) => (String(step).split('.')[1] || '').length;
+
+const RenderSettingsPanel: React.FC<RenderSettingsPanelProps> = ({ onClose, onLog }) => {
+  const { params, presets } = useSyncExternalStore(subscribeRenderSettings, getRenderSettings);
+  const glyphSettings = useSyncExternalStore(subscribeGlyphSettings, getGlyphSettings);
+  const glyphTable = useSyncExternalStore(subscribeGlyphSettings, getGlyphTable);
+  const perf = useSyncExternalStore(subscribePerformanceSettings, getPerformanceSettings);
+  const spatial = useSyncExternalStore(subscribeSpatialOptions, getSpatialOptions);
+  const [presetName, setPresetName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const presetNames = Object.keys(presets).sort();
+  const name = presetName.trim();
+
+  const handleSave = () => {
+    if (!name) return;
+    savePreset(name);
+    onLog?.(`Preset saved: ${name}.`);
+  };
+
+  const handleApply = (selected: string) => {
+    setPresetName(selected);
+    applyPreset(selected);
+  };
+
+  const handleDelete = () => {
+    if (!presets[name]) return;
+    deletePreset(name);
+    onLog?.(`Preset deleted: ${name}.`);
+    setPresetName('');
+  };
+
+  const handleExport = () => {
+    const preset = exportPreset(name || 'Untitled');
+    const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, timestampedFilename('sightos-preset', 'json'));
+  };
+
+  const handleShare = async () => {
+    const url = presetShareUrl(exportPreset(name || 'Shared'));
+    try {
+      await navigator.clipboard.writeText(url);
+      onLog?.('Preset link copied to clipboard.');
+    } catch {
+      // Clipboard needs a user gesture and permission; leave the link where it can be copied by hand
+      history.replaceState(null, '', url);
+      onLog?.('Preset link written to the address bar.');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parsePreset(await file.text());
+      const name = importPreset(preset);
+      setPresetName(name);
+      onLog?.(`Preset imported: ${name}.`);
+    } catch (err: any) {
+      onLog?.(`Preset import failed: ${err?.message || err}`, 'error');
+    }
+  };
+
+  return (
+    <div className="w-72 max-h-full overflow-y-auto custom-scrollbar border border-green-900 bg-black/95 rounded-lg shadow-[0_0_15px_rgba(0,255,0,0.1)] font-mono text-sm p-3 space-y-2">
+      <div className="flex justify-between items-center select-none">
+        <span className="text-green-500 font-bold">PARAMETERS</span>
+        <div className="flex items-center gap-1">
+          <button onClick={resetRenderParams} className={iconButtonClass} aria-label="Reset parameters">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+          {onClose && (
+            <button onClick={onClose} className={iconButtonClass} aria-label="Close parameters">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {GROUPS.map(group => (
+        <div key={group} className="space-y-1.5">
+          <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">{group.toUpperCase()}</div>
+          {RENDER_PARAM_SPECS.filter(spec => spec.group === group).map(spec => (
+            <label key={spec.key} className="block">
+              <span className={`${labelClass} flex justify-between`}>
+                <span>{spec.label}</span>
+                <span className="text-green-500 tabular-nums">{params[spec.key].toFixed(decimals(spec.step))}</span>
+              </span>
+              <input
+                type="range"
+                min={spec.min}
+                max={spec.max}
+                step={spec.step}
+                value={params[spec.key]}
+                onChange={(e) => updateRenderParams({ [spec.key]: Number(e.target.value) })}
+                className="w-full accent-green-500"
+              />
+            </label>
+          ))}
+        </div>
+      ))}
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">GLYPHS</div>
+        <select
+          value={glyphSettings.set}
+          onChange={(e) => updateGlyphSettings({ set: e.target.value as GlyphSetId })}
+          className={inputClass}
+          aria-label="Glyph set"
+        >
+          {GLYPH_SETS.map(set => (
+            <option key={set.id} value={set.id}>{set.label}</option>
+          ))}
+        </select>
+        {glyphSettings.set === 'custom' && (
+          <div className="flex items-center gap-1">
+            <input
+              value={glyphSettings.custom}
+              placeholder="Alphabet, e.g. ░▒▓█"
+              onChange={(e) => updateGlyphSettings({ custom: e.target.value })}
+              className={inputClass}
+              aria-label="Custom alphabet"
+              title={`Up to ${MAX_CUSTOM_GLYPHS} unique characters; in ramp mode order them dark to bright`}
+            />
+            <select
+              value={glyphSettings.customMode}
+              onChange={(e) => updateGlyphSettings({ customMode: e.target.value as GlyphMode })}
+              className={`${inputClass} w-20`}
+              aria-label="Custom alphabet mode"
+            >
+              <option value="cycle">Cycle</option>
+              <option value="ramp">Ramp</option>
+            </select>
+          </div>
+        )}
+        <div className="text-xs text-green-500 truncate" title={glyphTable.chars.join('')}>
+          {glyphTable.chars.slice(0, glyphTable.count).join('')}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-green-500">
+          <input
+            type="checkbox"
+            checked={glyphSettings.directional}
+            onChange={(e) => updateGlyphSettings({ directional: e.target.checked })}
+            className="accent-green-500"
+          />
+          Directional edges ({'| / - \\'})
+        </label>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">PERFORMANCE</div>
+        <label className="flex items-center gap-2 text-xs text-green-500">
+          <input
+            type="checkbox"
+            checked={perf.hud}
+            onChange={(e) => updatePerformanceSettings({ hud: e.target.checked })}
+            className="accent-green-500"
+          />
+          Show HUD
+        </label>
+        <div className="flex items-center gap-2">
+          <label className="flex-1 flex items-center gap-2 text-xs text-green-500">
+            <input
+              type="checkbox"
+              checked={perf.adaptive}
+              onChange={(e) => updatePerformanceSettings({ adaptive: e.target.checked })}
+              className="accent-green-500"
+            />
+            Adaptive quality
+          </label>
+          <select
+            value={perf.targetFps}
+            disabled={!perf.adaptive}
+            onChange={(e) => updatePerformanceSettings({ targetFps: Number(e.target.value) })}
+            className={`${inputClass} w-24 disabled:opacity-50`}
+            aria-label="Target frame rate"
+            title="Cell size and analysis rate step down while the frame rate stays below this"
+          >
+            {TARGET_FPS_OPTIONS.map(fps => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">3D VIEW</div>
+        <div className="flex items-center gap-1">
+          <select
+            value={spatial.depth}
+            onChange={(e) => updateSpatialOptions({ depth: e.target.value as SpatialDepth })}
+            className={inputClass}
+            aria-label="Depth source"
+          >
+            <option value="luma">Depth: luma</option>
+            <option value="edges">Depth: edges</option>
+          </select>
+          <select
+            value={spatial.style}
+            onChange={(e) => updateSpatialOptions({ style: e.target.value as SpatialStyle })}
+            className={inputClass}
+            aria-label="3D style"
+          >
+            <option value="wireframe">Wireframe</option>
+            <option value="glyphs">Glyphs</option>
+          </select>
+        </div>
+        <label className="block">
+          <span className={`${labelClass} flex justify-between`}>
+            <span>Relief</span>
+            <span className="text-green-500 tabular-nums">{spatial.relief.toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_RELIEF}
+            step={0.05}
+            value={spatial.relief}
+            onChange={(e) => updateSpatialOptions({ relief: Number(e.target.value) })}
+            className="w-full accent-green-500"
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-green-600 border-b border-green-900 pb-0.5">PRESETS</div>
+        {presetNames.length > 0 && (
+          <select
+            value={presets[name] ? name : ''}
+            onChange={(e) => e.target.value && handleApply(e.target.value)}
+            className={inputClass}
+            aria-label="Load preset"
+          >
+            <option value="">Load preset...</option>
+            {presetNames.map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex items-center gap-1">
+          <input
+            value={presetName}
+            placeholder="Preset name"
+            maxLength={64}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            className={inputClass}
+          />
+          <button onClick={handleSave} disabled={!name} className={iconButtonClass} aria-label="Save preset">
+            <Save className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={handleDelete} disabled={!presets[name]} className={iconButtonClass} aria-label="Delete preset">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <div className="flex items-center gap-2 text-[10px]">
+          <button onClick={handleExport} className="text-green-700 hover:text-green-400">EXPORT JSON</button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-green-700 hover:text-green-400">
+            <Upload className="w-3 h-3" /> IMPORT
+          </button>
+          <button onClick={handleShare} className="flex items-center gap-1 text-green-700 hover:text-green-400">
+            <Share2 className="w-3 h-3" /> LINK
+          </button>
+        </div>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default RenderSettingsPanel;
@@ -0,0 +1,63 @@
+import React, { useRef } from 'react';
+import { InputSourceSpec } from '../services/inputSources';
+import { TEST_PATTERNS, TestPatternId } from '../lib/testPatterns';
+
+interface SourcePickerProps {
+  source: InputSourceSpec;
+  onChange: (source: InputSourceSpec) => void;
+}
+
+const valueOf = (source: InputSourceSpec) =>
+  source.kind === 'pattern' ? `pattern:${source.pattern}` : source.kind;
+
+const SourcePicker: React.FC<SourcePickerProps> = ({ source, onChange }) => {
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (value: string) => {
+    if (value === 'file') {
+      videoInputRef.current?.click();
+    } else if (value === 'image') {
+      imageInputRef.current?.click();
+    } else if (value === 'recording') {
+      recordingInputRef.current?.click();
+    } else if (value.startsWith('pattern:')) {
+      onChange({ kind: 'pattern', pattern: value.slice('pattern:'.length) as TestPatternId });
+    } else if (value === 'camera' || value === 'screen') {
+      onChange({ kind: value });
+    }
+  };
+
+  const handleFile = (kind: 'file' | 'image' | 'recording') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    e.target.value = '';
+    if (file) onChange({ kind, file });
+  };
+
+  return (
+    <>
+      <select
+        value={valueOf(source)}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="bg-black border border-green-800 text-green-500 text-xs px-2 py-1 rounded"
+        aria-label="Input source"
+      >
+        <option value="camera">Camera</option>
+        <option value="file">{source.kind === 'file' ? `Video: ${source.file.name}` : 'Video file...'}</option>
+        <option value="image">{source.kind === 'image' ? `Image: ${source.file.name}` : 'Still image...'}</option>
+        <option value="recording">{source.kind === 'recording' ? `Replay: ${source.file.name}` : 'Grid recording...'}</option>
+        <option value="screen">Screen capture</option>
+        {TEST_PATTERNS.map(p => (
+          <option key={p.id} value={`pattern:${p.id}`}>Pattern: {p.label}</option>
+        ))}
+      </select>
+      <input ref={videoInputRef} type="file" accept="video/*" className="hidden" onChange={handleFile('file')} />
+      <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={handleFile('image')} />
+      <input ref={recordingInputRef} type="file" accept=".ndjson,.sgrd" className="hidden" onChange={handleFile('recording')} />
+    </>
+  );
+};
+
+export default SourcePicker;
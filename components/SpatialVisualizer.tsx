@@ -1,4 +1,84 @@
-import React from 'react';
-// This component has been deprecated and replaced by RealityMapper.tsx
-const SpatialVisualizer = () => <div className="hidden">Visualizer Deprecated</div>;
-export default SpatialVisualizer;
\ No newline at end of file
+import React, { MutableRefObject, useRef } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { clampOrbit, DEFAULT_ORBIT, OrbitCamera } from '../lib/heightField';
+
+interface SpatialVisualizerProps {
+  // Read by the render loop every frame; gestures write it directly so orbiting never re-renders React
+  cameraRef: MutableRefObject<OrbitCamera>;
+}
+
+// Radians per pixel dragged
+const ORBIT_SPEED = 0.008;
+// Zoom factor per wheel pixel
+const WHEEL_ZOOM = 0.0015;
+
+const distanceBetween = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Orbit controls for the 3D height-field view, layered over the mapper canvas. One pointer orbits,
+// two pinch to zoom, the wheel zooms and a double click resets the camera.
+const SpatialVisualizer: React.FC<SpatialVisualizerProps> = ({ cameraRef }) => {
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<number | null>(null);
+
+  const update = (patch: Partial<OrbitCamera>) => {
+    cameraRef.current = clampOrbit({ ...cameraRef.current, ...patch });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      pinchRef.current = distanceBetween(a, b);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const last = pointers.get(e.pointerId);
+    if (!last) return;
+    const next = { x: e.clientX, y: e.clientY };
+    pointers.set(e.pointerId, next);
+
+    if (pointers.size === 1) {
+      const camera = cameraRef.current;
+      update({ yaw: camera.yaw + (next.x - last.x) * ORBIT_SPEED, pitch: camera.pitch + (next.y - last.y) * ORBIT_SPEED });
+    } else if (pointers.size === 2 && pinchRef.current) {
+      const [a, b] = [...pointers.values()];
+      const spread = distanceBetween(a, b);
+      update({ zoom: cameraRef.current.zoom * (spread / pinchRef.current) });
+      pinchRef.current = spread;
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    pinchRef.current = null;
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-20 touch-none cursor-grab active:cursor-grabbing"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={(e) => update({ zoom: cameraRef.current.zoom * Math.exp(-e.deltaY * WHEEL_ZOOM) })}
+      onDoubleClick={() => update(DEFAULT_ORBIT)}
+      role="application"
+      aria-label="3D view: drag to orbit, scroll or pinch to zoom, double-click to reset"
+    >
+      <button
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={() => update(DEFAULT_ORBIT)}
+        className="absolute top-2 right-2 flex items-center gap-1 border border-green-800 bg-black/70 text-green-600 text-[10px] px-2 py-0.5 rounded hover:text-green-400"
+        title="Drag to orbit, scroll or pinch to zoom"
+      >
+        <RotateCcw className="w-3 h-3" />
+        RESET VIEW
+      </button>
+    </div>
+  );
+};
+
+export default SpatialVisualizer;
@@ -1,21 +1,137 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { LogEntry } from '../types';
-import { X } from 'lucide-react';
+import type { Completion } from '../lib/commandConsole';
+import { filterLogs, LOG_EXPORT_FORMATS, LOG_TYPES, LogExportFormat, LogType, splitMatches } from '../lib/logEntries';
+import { downloadLogs, loadSnapshot, setLogPinned } from '../services/logStore';
+import { Image, Pin, PinOff, Search, X } from 'lucide-react';
 
 interface TerminalOutputProps {
   logs: LogEntry[];
   onClose?: () => void;
+  // Without a handler the panel is read-only
+  onCommand?: (line: string) => void;
+  complete?: (line: string) => Completion;
+  // Entry a reply is still streaming into; shown with a cursor
+  streamingId?: string | null;
 }
 
-const TerminalOutput: React.FC<TerminalOutputProps> = ({ logs, onClose }) => {
+const MAX_HISTORY = 100;
+
+const TYPE_COLORS: Record<LogType, string> = {
+  system: 'text-green-400',
+  analysis: 'text-cyan-400',
+  override: 'text-amber-400',
+  error: 'text-red-500',
+  input: 'text-yellow-400',
+  motion: 'text-fuchsia-400'
+};
+
+const TYPE_PREFIXES: Record<LogType, string> = {
+  system: '> ',
+  analysis: '>> ',
+  override: '!> ',
+  error: '',
+  input: '$ ',
+  motion: '~> '
+};
+
+// The frame an audit entry came from, read back from the log store
+const SnapshotPreview: React.FC<{ id: string }> = ({ id }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    loadSnapshot(id).then(blob => {
+      if (cancelled) return;
+      if (!blob) {
+        setMissing(true);
+        return;
+      }
+      objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id]);
+
+  if (missing) return <div className="text-gray-600 italic text-xs">Snapshot expired.</div>;
+  if (!url) return null;
+  return (
+    <a href={url} target="_blank" rel="noreferrer" className="block">
+      <img src={url} alt="Audited frame" className="max-h-32 border border-green-900 rounded" />
+    </a>
+  );
+};
+
+const TerminalOutput: React.FC<TerminalOutputProps> = ({ logs, onClose, onCommand, complete, streamingId }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [line, setLine] = useState('');
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [history, setHistory] = useState<string[]>([]);
+  // Position while browsing history; history.length means the line being typed
+  const [cursor, setCursor] = useState(0);
+  const draftRef = useRef('');
+  const [types, setTypes] = useState<ReadonlySet<LogType>>(new Set());
+  const [search, setSearch] = useState('');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [openSnapshot, setOpenSnapshot] = useState<string | null>(null);
+
+  const visible = useMemo(() => filterLogs(logs, { types, search, pinnedOnly }), [logs, types, search, pinnedOnly]);
+  const filtered = types.size > 0 || !!search || pinnedOnly;
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [logs]);
+  }, [visible, candidates]);
+
+  const toggleType = (type: LogType) => {
+    const next = new Set(types);
+    if (!next.delete(type)) next.add(type);
+    setTypes(next);
+  };
+
+  const recall = (index: number) => {
+    if (index < 0 || index > history.length) return;
+    if (cursor === history.length) draftRef.current = line;
+    setCursor(index);
+    setLine(index === history.length ? draftRef.current : history[index]);
+    setCandidates([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      const command = line.trim();
+      setLine('');
+      setCandidates([]);
+      draftRef.current = '';
+      if (!command) return;
+      const next = history[history.length - 1] === command ? history : [...history, command].slice(-MAX_HISTORY);
+      setHistory(next);
+      setCursor(next.length);
+      onCommand?.(command);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      recall(cursor - 1);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      recall(cursor + 1);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      if (!complete) return;
+      const completion = complete(line);
+      setLine(completion.line);
+      setCandidates(completion.candidates);
+    } else if (e.key === 'Escape') {
+      setCandidates([]);
+    }
+  };
 
   return (
     <div className="flex flex-col h-full border border-green-900 bg-black/90 rounded-lg shadow-[0_0_15px_rgba(0,255,0,0.1)] font-mono text-sm overflow-hidden">
@@ -34,27 +150,121 @@ const TerminalOutput: React.FC<TerminalOutputProps> = ({ logs, onClose }) => {
             </button>
         )}
       </div>
-      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-2">
-        {logs.map((log) => (
-          <div key={log.id} className="flex gap-2">
-            <span className="text-gray-500 shrink-0">[{log.timestamp}]</span>
-            <span className={`${
-              log.type === 'error' ? 'text-red-500' :
-              log.type === 'analysis' ? 'text-cyan-400' :
-              log.type === 'input' ? 'text-yellow-400' :
-              'text-green-400'
-            }`}>
-              {log.type === 'system' && '> '}
-              {log.type === 'input' && '$ '}
-              {log.type === 'analysis' && '>> '}
-              {log.message}
-            </span>
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1 border-b border-green-900 text-[10px] select-none">
+        {LOG_TYPES.map(t => (
+          <button
+            key={t.id}
+            onClick={() => toggleType(t.id)}
+            className={`px-1 rounded border ${types.has(t.id) ? `border-green-600 ${TYPE_COLORS[t.id]}` : 'border-green-900 text-green-800 hover:text-green-500'}`}
+            aria-pressed={types.has(t.id)}
+            title={`Show ${t.id} entries`}
+          >
+            {t.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setPinnedOnly(!pinnedOnly)}
+          className={`p-0.5 rounded border ${pinnedOnly ? 'border-green-600 text-green-400' : 'border-green-900 text-green-800 hover:text-green-500'}`}
+          aria-pressed={pinnedOnly}
+          title="Pinned entries only"
+        >
+          <Pin className="w-3 h-3" />
+        </button>
+        <label className="flex items-center gap-1 flex-1 min-w-[6rem] border border-green-900 rounded px-1">
+          <Search className="w-3 h-3 text-green-800 shrink-0" />
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="w-full bg-transparent text-green-400 outline-none placeholder:text-green-900"
+            placeholder="Search"
+            aria-label="Search logs"
+            spellCheck={false}
+          />
+        </label>
+        <select
+          value=""
+          onChange={e => e.target.value && downloadLogs(e.target.value as LogExportFormat, visible)}
+          className="bg-black border border-green-900 text-green-700 rounded px-0.5"
+          aria-label="Export logs"
+          title={filtered ? 'Export the filtered entries' : 'Export the log'}
+        >
+          <option value="">Export</option>
+          {LOG_EXPORT_FORMATS.map(f => (
+            <option key={f.id} value={f.id}>{f.id.toUpperCase()}</option>
+          ))}
+        </select>
+      </div>
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-y-auto p-4 space-y-2"
+        onClick={() => {
+          // Clicking the log focuses the prompt, unless the user is selecting text to copy
+          if (!window.getSelection()?.toString()) inputRef.current?.focus();
+        }}
+      >
+        {visible.map((log) => (
+          <div key={log.id} className="group">
+            <div className="flex gap-2">
+              <span className="text-gray-500 shrink-0">[{log.timestamp}]</span>
+              <span className={`flex-1 min-w-0 break-words ${TYPE_COLORS[log.type]}`}>
+                {TYPE_PREFIXES[log.type]}
+                {splitMatches(log.message, search).map((segment, k) => segment.match
+                  ? <mark key={k} className="bg-yellow-400/30 text-inherit rounded-sm">{segment.text}</mark>
+                  : segment.text)}
+                {log.id === streamingId && <span className="animate-pulse">▌</span>}
+              </span>
+              {log.snapshotId && (
+                <button
+                  onClick={e => { e.stopPropagation(); setOpenSnapshot(openSnapshot === log.id ? null : log.id); }}
+                  className="self-start text-green-700 hover:text-green-400 p-0.5"
+                  aria-label="Show audited frame"
+                  title="Audited frame"
+                >
+                  <Image className="w-3 h-3" />
+                </button>
+              )}
+              <button
+                onClick={e => { e.stopPropagation(); setLogPinned(log.id, !log.pinned); }}
+                className={`self-start p-0.5 ${log.pinned ? 'text-green-400' : 'text-green-800 opacity-0 group-hover:opacity-100 focus:opacity-100'} hover:text-green-400`}
+                aria-label={log.pinned ? 'Unpin entry' : 'Pin entry'}
+              >
+                {log.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+              </button>
+            </div>
+            {log.snapshotId && openSnapshot === log.id && (
+              <div className="mt-1 ml-4">
+                <SnapshotPreview id={log.snapshotId} />
+              </div>
+            )}
           </div>
         ))}
         {logs.length === 0 && (
           <div className="text-gray-700 italic">No activity detected...</div>
         )}
+        {logs.length > 0 && visible.length === 0 && (
+          <div className="text-gray-700 italic">No entries match the filter.</div>
+        )}
+        {candidates.length > 0 && (
+          <div className="text-green-700 break-words">{candidates.join('  ')}</div>
+        )}
       </div>
+      {onCommand && (
+        <div className="flex items-center gap-2 border-t border-green-900 px-4 py-2">
+          <span className="text-yellow-400 select-none">$</span>
+          <input
+            ref={inputRef}
+            value={line}
+            onChange={e => { setLine(e.target.value); setCandidates([]); }}
+            onKeyDown={handleKeyDown}
+            className="flex-1 min-w-0 bg-transparent text-yellow-400 outline-none placeholder:text-green-900"
+            placeholder="type help"
+            aria-label="Console command"
+            spellCheck={false}
+            autoComplete="off"
+            autoCapitalize="off"
+          />
+        </div>
+      )}
     </div>
   );
 };
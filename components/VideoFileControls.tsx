@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, Repeat } from 'lucide-react';
+
+interface VideoFileControlsProps {
+  video: HTMLVideoElement;
+}
+
+const formatTime = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '--:--';
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+// Transport for recorded footage: play/pause, seek and loop
+const VideoFileControls: React.FC<VideoFileControlsProps> = ({ video }) => {
+  const [time, setTime] = useState(video.currentTime);
+  const [duration, setDuration] = useState(video.duration);
+  const [paused, setPaused] = useState(video.paused);
+  const [loop, setLoop] = useState(video.loop);
+
+  useEffect(() => {
+    const sync = () => {
+      setTime(video.currentTime);
+      setDuration(video.duration);
+      setPaused(video.paused);
+      setLoop(video.loop);
+    };
+    const events = ['timeupdate', 'durationchange', 'play', 'pause', 'seeked', 'loadedmetadata'];
+    events.forEach(e => video.addEventListener(e, sync));
+    sync();
+    return () => events.forEach(e => video.removeEventListener(e, sync));
+  }, [video]);
+
+  const togglePlay = () => {
+    if (video.paused) video.play().catch(() => {});
+    else video.pause();
+  };
+
+  const toggleLoop = () => {
+    video.loop = !video.loop;
+    setLoop(video.loop);
+  };
+
+  return (
+    <div className="flex items-center gap-2 border border-green-900 bg-black/90 rounded px-2 py-1 font-mono text-xs text-green-500">
+      <button onClick={togglePlay} className="hover:text-green-300" aria-label={paused ? 'Play' : 'Pause'}>
+        {paused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={Number.isFinite(duration) ? duration : 0}
+        step={0.01}
+        value={time}
+        onChange={(e) => { video.currentTime = Number(e.target.value); }}
+        className="w-40 accent-green-500"
+        aria-label="Seek"
+      />
+      <span className="tabular-nums">{formatTime(time)} / {formatTime(duration)}</span>
+      <button
+        onClick={toggleLoop}
+        className={loop ? 'text-green-300' : 'text-green-800 hover:text-green-500'}
+        aria-label="Toggle loop"
+      >
+        <Repeat className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+export default VideoFileControls;
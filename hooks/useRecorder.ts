@@ -0,0 +1,78 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import type { RealityMapperHandle } from '../components/RealityMapper';
+import { Recorder, RecordingKind, startRecorder } from '../services/recorder';
+import { downloadBlob } from '../lib/download';
+import type { LogEntry } from '../types';
+
+type Log = (message: string, type?: LogEntry['type']) => void;
+
+export interface RecorderState {
+  kind: RecordingKind;
+  setKind: (kind: RecordingKind) => void;
+  recording: boolean;
+  // ms since the recording started, updated twice a second
+  elapsed: number;
+  // Records with `kind` unless another kind is given
+  start: (kindOverride?: RecordingKind) => void;
+  stop: () => Promise<void>;
+}
+
+export const useRecorder = (mapperRef: RefObject<RealityMapperHandle | null>, addLog: Log): RecorderState => {
+  const [kind, setKind] = useState<RecordingKind>('video');
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<Recorder | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => {
+      if (recorderRef.current) setElapsed(Date.now() - recorderRef.current.startedAt);
+    }, 500);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  const start = useCallback((kindOverride?: RecordingKind) => {
+    const recordKind = kindOverride ?? kind;
+    const mapper = mapperRef.current;
+    const canvas = mapper?.getCanvas();
+    if (recorderRef.current || !mapper || !canvas) return;
+
+    try {
+      const recorder = startRecorder(recordKind, canvas, { cellSize: mapper.getCellSize(), palette: mapper.getPalette() });
+      recorderRef.current = recorder;
+      if (recorder.capture) unsubscribeRef.current = mapper.subscribeFrames(recorder.capture);
+      setKind(recordKind);
+      setElapsed(0);
+      setRecording(true);
+      addLog(`Recording started [${recordKind}].`);
+    } catch (err: any) {
+      addLog(`Recorder failure: ${err?.message || err}`, 'error');
+    }
+  }, [kind, mapperRef, addLog]);
+
+  const stop = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    setRecording(false);
+
+    try {
+      const { blob, filename } = await recorder.stop();
+      downloadBlob(blob, filename);
+      addLog(`Recording saved: ${filename} (${(blob.size / 1024).toFixed(0)} KB).`);
+    } catch (err: any) {
+      addLog(`Recorder failure: ${err?.message || err}`, 'error');
+    }
+  }, [addLog]);
+
+  // Stop cleanly if the app unmounts mid-recording
+  useEffect(() => () => {
+    unsubscribeRef.current?.();
+    recorderRef.current?.stop().catch(() => {});
+  }, []);
+
+  return { kind, setKind, recording, elapsed, start, stop };
+};
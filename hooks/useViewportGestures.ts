@@ -0,0 +1,78 @@
+import { MutableRefObject, useRef } from 'react';
+import type React from 'react';
+import { panBy, Viewport, zoomAround } from '../lib/viewport';
+
+// Zoom factor per wheel pixel
+const WHEEL_ZOOM = 0.0015;
+
+type Point = { x: number; y: number };
+
+export interface ViewportGestures {
+  onPointerDown: (e: React.PointerEvent<HTMLElement>) => void;
+  onPointerMove: (e: React.PointerEvent<HTMLElement>) => void;
+  onPointerUp: (e: React.PointerEvent<HTMLElement>) => void;
+  onWheel: (e: React.WheelEvent<HTMLElement>) => void;
+}
+
+// Pointer position normalized to the element
+const normalized = (e: { clientX: number; clientY: number; currentTarget: HTMLElement }): Point => {
+  const bounds = e.currentTarget.getBoundingClientRect();
+  return { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+};
+
+const spreadOf = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// One pointer drags the picture, two pinch (zooming around their midpoint while it pans), the wheel zooms around
+// the cursor. Moves write `viewportRef` directly so the render loop picks them up without re-rendering React;
+// `onChange` fires once per finished gesture.
+export const useViewportGestures = (
+  viewportRef: MutableRefObject<Viewport>,
+  onChange: (viewport: Viewport) => void
+): ViewportGestures => {
+  const pointersRef = useRef(new Map<number, Point>());
+  // Viewport when the gesture started, to tell whether it changed anything
+  const startRef = useRef<Viewport | null>(null);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, normalized(e));
+    startRef.current ??= viewportRef.current;
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    const last = pointers.get(e.pointerId);
+    if (!last) return;
+    const next = normalized(e);
+
+    if (pointers.size === 1) {
+      viewportRef.current = panBy(viewportRef.current, next.x - last.x, next.y - last.y);
+    } else if (pointers.size === 2) {
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+      const before = { x: (last.x + other.x) / 2, y: (last.y + other.y) / 2 };
+      const after = { x: (next.x + other.x) / 2, y: (next.y + other.y) / 2 };
+      const spread = spreadOf(last, other);
+      const factor = spread > 0 ? spreadOf(next, other) / spread : 1;
+      viewportRef.current = panBy(zoomAround(viewportRef.current, factor, before.x, before.y), after.x - before.x, after.y - before.y);
+    }
+    pointers.set(e.pointerId, next);
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    if (!pointers.delete(e.pointerId) || pointers.size) return;
+    const start = startRef.current;
+    startRef.current = null;
+    if (start !== viewportRef.current) onChange(viewportRef.current);
+  };
+
+  const onWheel = (e: React.WheelEvent<HTMLElement>) => {
+    const p = normalized(e);
+    const next = zoomAround(viewportRef.current, Math.exp(-e.deltaY * WHEEL_ZOOM), p.x, p.y);
+    if (next.zoom === viewportRef.current.zoom && next.cx === viewportRef.current.cx && next.cy === viewportRef.current.cy) return;
+    viewportRef.current = next;
+    onChange(next);
+  };
+
+  return { onPointerDown, onPointerMove, onPointerUp, onWheel };
+};
@@ -0,0 +1,88 @@
+// Steps quality down while frames run over budget and back up once there is headroom again
+
+export interface QualityLevel {
+  // Multiplier on the configured cell size: fewer, larger cells to analyze and draw
+  cellScale: number;
+  // Analyze every nth frame; frames in between redraw the last analysis
+  analysisEvery: number;
+}
+
+// Cheapest first: skipping analysis keeps the picture sharp, larger cells only follow when that is not enough
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { cellScale: 1, analysisEvery: 1 },
+  { cellScale: 1, analysisEvery: 2 },
+  { cellScale: 1.25, analysisEvery: 2 },
+  { cellScale: 1.5, analysisEvery: 2 },
+  { cellScale: 2, analysisEvery: 3 }
+];
+
+export const TARGET_FPS_OPTIONS = [20, 30, 45, 60];
+export const DEFAULT_TARGET_FPS = 30;
+
+// Over budget for this long steps down
+const DEGRADE_AFTER_MS = 1000;
+// Under HEADROOM of the budget for this long steps back up
+const RESTORE_AFTER_MS = 3000;
+const HEADROOM = 0.7;
+// A step up that has to be undone within this window doubles the wait before the next one, so a
+// level that does not fit is not retried every few seconds
+const RELAPSE_MS = 5000;
+const MAX_RESTORE_AFTER_MS = 60000;
+
+export interface QualityGovernor {
+  // Index into QUALITY_LEVELS; 0 is full quality
+  level: () => number;
+  // Feeds the smoothed frame interval and main-thread work (ms); returns true when the level changed
+  update: (now: number, frameTime: number, work: number, targetFps: number) => boolean;
+  reset: () => void;
+}
+
+export const createQualityGovernor = (): QualityGovernor => {
+  let level = 0;
+  let overSince: number | null = null;
+  let underSince: number | null = null;
+  let restoreAfter = RESTORE_AFTER_MS;
+  let lastRestore = -Infinity;
+  // Changing level resets the averages' meaning; wait for them to settle before judging again
+  let settleUntil = 0;
+
+  const change = (next: number, now: number) => {
+    level = next;
+    overSince = underSince = null;
+    settleUntil = now + DEGRADE_AFTER_MS;
+  };
+
+  const update = (now: number, frameTime: number, work: number, targetFps: number) => {
+    if (now < settleUntil || !frameTime) return false;
+    const budget = 1000 / targetFps;
+    // The frame interval never drops below the display's refresh, so the work term is what
+    // shows headroom on a fast display
+    const over = frameTime > budget * 1.1;
+    const under = !over && work < budget * HEADROOM;
+
+    overSince = over ? overSince ?? now : null;
+    underSince = under ? underSince ?? now : null;
+
+    if (overSince !== null && now - overSince >= DEGRADE_AFTER_MS && level < QUALITY_LEVELS.length - 1) {
+      if (now - lastRestore < RELAPSE_MS) restoreAfter = Math.min(MAX_RESTORE_AFTER_MS, restoreAfter * 2);
+      change(level + 1, now);
+      return true;
+    }
+    if (underSince !== null && now - underSince >= restoreAfter && level > 0) {
+      lastRestore = now;
+      change(level - 1, now);
+      return true;
+    }
+    return false;
+  };
+
+  const reset = () => {
+    level = 0;
+    overSince = underSince = null;
+    restoreAfter = RESTORE_AFTER_MS;
+    lastRestore = -Infinity;
+    settleUntil = 0;
+  };
+
+  return { level: () => level, update, reset };
+};
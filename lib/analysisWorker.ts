@@ -0,0 +1,86 @@
+// Dedicated worker: downsamples incoming frames on an OffscreenCanvas and runs the per-cell analysis
+import {
+  allocateAnalysis,
+  analysisTransferables,
+  analyzeFrame,
+  applyCalibration,
+  createAnalyzerState,
+  CropRect,
+  FrameAnalysis
+} from './frameAnalysis';
+import type { AnalysisParams } from './renderParams';
+import type { CalibrationProfile } from './calibration';
+import { applyBackgroundCommand, BackgroundCommand } from './backgroundModel';
+
+export type AnalysisRequest =
+  | { type: 'frame'; frame: VideoFrame | ImageBitmap; crop: CropRect; cols: number; rows: number; params: AnalysisParams }
+  | { type: 'release'; analysis: FrameAnalysis }
+  | { type: 'calibrate'; profile: CalibrationProfile | null }
+  | { type: 'background'; command: BackgroundCommand };
+
+export type AnalysisResponse =
+  | { type: 'result'; analysis: FrameAnalysis }
+  | { type: 'error'; message: string };
+
+interface WorkerScope {
+  onmessage: ((e: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage: (message: AnalysisResponse, transfer?: Transferable[]) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+const state = createAnalyzerState();
+
+// Buffer sets handed back by the UI thread once it has composited them
+const pool: FrameAnalysis[] = [];
+
+let surface: OffscreenCanvas | null = null;
+let surfaceCtx: OffscreenCanvasRenderingContext2D | null = null;
+
+const acquire = (cols: number, rows: number) => {
+  while (pool.length) {
+    const candidate = pool.pop()!;
+    if (candidate.cols === cols && candidate.rows === rows) return candidate;
+  }
+  return allocateAnalysis(cols, rows);
+};
+
+const handleFrame = (frame: VideoFrame | ImageBitmap, crop: CropRect, cols: number, rows: number, params: AnalysisParams) => {
+  try {
+    if (!surface) {
+      surface = new OffscreenCanvas(cols, rows);
+      surfaceCtx = surface.getContext('2d', { willReadFrequently: true });
+    }
+    if (!surfaceCtx) throw new Error('OffscreenCanvas 2D context unavailable');
+    if (surface.width !== cols || surface.height !== rows) {
+      surface.width = cols;
+      surface.height = rows;
+    }
+
+    const start = performance.now();
+    surfaceCtx.drawImage(frame, crop.sx, crop.sy, crop.sw, crop.sh, 0, 0, cols, rows);
+    const pixels = surfaceCtx.getImageData(0, 0, cols, rows).data;
+    const downsample = performance.now() - start;
+
+    const analysis = acquire(cols, rows);
+    analyzeFrame(pixels, analysis, state, params);
+    analysis.timings.downsample = downsample;
+    scope.postMessage({ type: 'result', analysis }, analysisTransferables(analysis));
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', message: err?.message || String(err) });
+  } finally {
+    frame.close();
+  }
+};
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === 'frame') {
+    handleFrame(msg.frame, msg.crop, msg.cols, msg.rows, msg.params);
+  } else if (msg.type === 'release') {
+    pool.push(msg.analysis);
+  } else if (msg.type === 'calibrate') {
+    applyCalibration(state, msg.profile);
+  } else if (msg.type === 'background') {
+    applyBackgroundCommand(state.background, msg.command);
+  }
+};
@@ -0,0 +1,107 @@
+// Per-frame audio features from AnalyserNode buffers: level, onset and log-spaced spectrum bands.
+// Pure, so it can be fed recorded buffers outside the browser.
+
+export interface AudioFeatures {
+  // Smoothed loudness, 0 (≤ -60 dBFS) to 1 (0 dBFS)
+  level: number;
+  // 1 on a detected transient, decaying towards 0 afterwards
+  onset: number;
+  // Log-spaced magnitude bands, 0–1, lowest frequency first
+  bands: Float32Array;
+  // Band averages below 250 Hz, 250 Hz–2 kHz and above 2 kHz
+  bass: number;
+  mid: number;
+  treble: number;
+}
+
+export interface AudioFeatureExtractor {
+  // timeDomain: getFloatTimeDomainData; spectrum: getByteFrequencyData; dt in seconds since the last call
+  update: (timeDomain: Float32Array, spectrum: Uint8Array, dt: number) => AudioFeatures;
+}
+
+export const AUDIO_BAND_COUNT = 16;
+
+const MIN_FREQ = 40;
+const MAX_FREQ = 12000;
+const LEVEL_FLOOR_DB = -60;
+// Level envelope time constants (s)
+const ATTACK = 0.03;
+const RELEASE = 0.25;
+const ONSET_DECAY = 0.15;
+// Minimum gap between onsets (s)
+const ONSET_REFRACTORY = 0.12;
+
+export const createAudioFeatures = (bandCount = AUDIO_BAND_COUNT): AudioFeatures => ({
+  level: 0,
+  onset: 0,
+  bands: new Float32Array(bandCount),
+  bass: 0,
+  mid: 0,
+  treble: 0
+});
+
+export const createAudioFeatureExtractor = (sampleRate: number, fftSize: number, bandCount = AUDIO_BAND_COUNT): AudioFeatureExtractor => {
+  const binCount = fftSize / 2;
+  const binHz = sampleRate / fftSize;
+  const features = createAudioFeatures(bandCount);
+  const previousBands = new Float32Array(bandCount);
+
+  // Bin range [start, end) and centre frequency of each band
+  const ranges = Array.from({ length: bandCount }, (_, b) => {
+    const lo = MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, b / bandCount);
+    const hi = MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, (b + 1) / bandCount);
+    const start = Math.min(binCount - 1, Math.floor(lo / binHz));
+    const end = Math.min(binCount, Math.max(start + 1, Math.ceil(hi / binHz)));
+    return { start, end, centre: Math.sqrt(lo * hi) };
+  });
+
+  let fluxMean = 0;
+  let fluxDeviation = 0;
+  let sinceOnset = Infinity;
+
+  const update = (timeDomain: Float32Array, spectrum: Uint8Array, dt: number): AudioFeatures => {
+    let sumSquares = 0;
+    for (let i = 0; i < timeDomain.length; i++) sumSquares += timeDomain[i] * timeDomain[i];
+    const rms = Math.sqrt(sumSquares / Math.max(1, timeDomain.length));
+    const db = rms > 0 ? 20 * Math.log10(rms) : LEVEL_FLOOR_DB;
+    const target = Math.max(0, Math.min(1, 1 - db / LEVEL_FLOOR_DB));
+    const tau = target > features.level ? ATTACK : RELEASE;
+    features.level += (target - features.level) * (1 - Math.exp(-dt / tau));
+
+    let flux = 0;
+    let bass = 0, mid = 0, treble = 0;
+    let bassN = 0, midN = 0, trebleN = 0;
+    ranges.forEach(({ start, end, centre }, b) => {
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += spectrum[i] ?? 0;
+      const value = sum / (end - start) / 255;
+      features.bands[b] = value;
+      flux += Math.max(0, value - previousBands[b]);
+      previousBands[b] = value;
+      if (centre < 250) { bass += value; bassN++; }
+      else if (centre < 2000) { mid += value; midN++; }
+      else { treble += value; trebleN++; }
+    });
+    features.bass = bassN ? bass / bassN : 0;
+    features.mid = midN ? mid / midN : 0;
+    features.treble = trebleN ? treble / trebleN : 0;
+
+    // Spectral-flux onset against an adaptive threshold
+    flux /= bandCount;
+    sinceOnset += dt;
+    const isOnset = flux > fluxMean + 1.5 * fluxDeviation + 0.02 && sinceOnset > ONSET_REFRACTORY;
+    const adapt = 1 - Math.exp(-dt / 0.5);
+    fluxMean += (flux - fluxMean) * adapt;
+    fluxDeviation += (Math.abs(flux - fluxMean) - fluxDeviation) * adapt;
+    if (isOnset) {
+      features.onset = 1;
+      sinceOnset = 0;
+    } else {
+      features.onset *= Math.exp(-dt / ONSET_DECAY);
+    }
+
+    return features;
+  };
+
+  return { update };
+};
@@ -0,0 +1,83 @@
+import type { AudioFeatures } from './audioFeatures';
+
+// Which feature drives a render target
+export type AudioSourceKey = 'off' | 'level' | 'onset' | 'bass' | 'mid' | 'treble';
+
+export const AUDIO_SOURCES: { id: AudioSourceKey; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'level', label: 'Level' },
+  { id: 'onset', label: 'Onset' },
+  { id: 'bass', label: 'Bass' },
+  { id: 'mid', label: 'Mid' },
+  { id: 'treble', label: 'Treble' }
+];
+
+export interface AudioTarget {
+  source: AudioSourceKey;
+  // 0–1
+  amount: number;
+}
+
+export interface AudioMapping {
+  shimmer: AudioTarget;
+  rainSpeed: AudioTarget;
+  brightness: AudioTarget;
+  // Spreads the spectrum across the columns (low frequencies on the left); 0 disables
+  columns: number;
+}
+
+export type AudioTargetKey = Exclude<keyof AudioMapping, 'columns'>;
+
+export const AUDIO_TARGETS: { key: AudioTargetKey; label: string }[] = [
+  { key: 'shimmer', label: 'Shimmer' },
+  { key: 'rainSpeed', label: 'Rain speed' },
+  { key: 'brightness', label: 'Brightness' }
+];
+
+export const DEFAULT_AUDIO_MAPPING: AudioMapping = {
+  shimmer: { source: 'level', amount: 0.5 },
+  rainSpeed: { source: 'bass', amount: 0.5 },
+  brightness: { source: 'onset', amount: 0.3 },
+  columns: 0
+};
+
+// What the render loop applies on top of the user's render parameters
+export interface AudioModulation {
+  // Added to the shimmer amplitude
+  shimmer: number;
+  // Multiplies the rain phase step
+  rainSpeed: number;
+  // Multiplies cell brightness
+  gain: number;
+  // Per-column brightness multiplier, or null when column mapping is off
+  columnGain: Float32Array | null;
+}
+
+export const NEUTRAL_MODULATION: AudioModulation = { shimmer: 0, rainSpeed: 1, gain: 1, columnGain: null };
+
+const read = (features: AudioFeatures, target: AudioTarget) =>
+  target.source === 'off' ? 0 : features[target.source] * target.amount;
+
+// `columnBuffer` is reused when it already has `cols` entries
+export const modulate = (
+  features: AudioFeatures,
+  mapping: AudioMapping,
+  cols: number,
+  columnBuffer?: Float32Array
+): AudioModulation => {
+  let columnGain: Float32Array | null = null;
+  if (mapping.columns > 0 && cols > 0) {
+    columnGain = columnBuffer?.length === cols ? columnBuffer : new Float32Array(cols);
+    const { bands } = features;
+    for (let col = 0; col < cols; col++) {
+      const band = bands[Math.min(bands.length - 1, Math.floor((col / cols) * bands.length))];
+      columnGain[col] = 1 + mapping.columns * (2 * band - 1);
+    }
+  }
+  return {
+    shimmer: read(features, mapping.shimmer) * 0.4,
+    rainSpeed: 1 + read(features, mapping.rainSpeed) * 4,
+    gain: 1 + read(features, mapping.brightness),
+    columnGain
+  };
+};
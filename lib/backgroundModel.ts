@@ -0,0 +1,85 @@
+// Learned background: a running Gaussian (mean and variance) of each cell's luma. Cells that stray from
+// their model by more than a few standard deviations are foreground; everything else is static scenery.
+
+export type BackgroundCommand = 'freeze' | 'resume' | 'relearn';
+
+export interface BackgroundModel {
+  mean: Float32Array;
+  variance: Float32Array;
+  // Frames learned since the last relearn
+  samples: number;
+  // Stops learning once warmed up, so a scene can be held while things move through it
+  frozen: boolean;
+}
+
+export interface BackgroundParams {
+  // Weight of each new frame once warmed up
+  backgroundRate: number;
+  // Standard deviations from the model at which a cell starts to count as foreground
+  foregroundSigmas: number;
+}
+
+// Frames a fresh model needs before it is trusted, and before a freeze takes hold
+export const BACKGROUND_WARMUP = 30;
+// Floor on the per-cell deviation, so perfectly still cells do not flag sensor noise
+const MIN_SIGMA = 0.02;
+// Foreground cells learn at this share of the rate: someone who stops moving fades into the scene slowly
+const FOREGROUND_LEARNING = 0.1;
+
+export const createBackgroundModel = (): BackgroundModel => ({
+  mean: new Float32Array(0),
+  variance: new Float32Array(0),
+  samples: 0,
+  frozen: false
+});
+
+export const applyBackgroundCommand = (model: BackgroundModel, command: BackgroundCommand) => {
+  if (command === 'relearn') model.samples = 0;
+  else model.frozen = command === 'freeze';
+};
+
+// Scores `luma` against the model into `foreground` (0–1) and writes the model's expected luma to `background`.
+// The model is kept in exposure-neutral units, so auto-exposure drifting does not read as a changed scene.
+export const updateBackground = (
+  model: BackgroundModel,
+  luma: Float32Array,
+  exposureGain: number,
+  noiseFloor: number,
+  params: BackgroundParams,
+  foreground: Float32Array,
+  background: Float32Array
+) => {
+  const numCells = luma.length;
+  if (model.mean.length !== numCells) {
+    model.mean = new Float32Array(numCells);
+    model.variance = new Float32Array(numCells);
+    model.samples = 0;
+  }
+  const { mean, variance } = model;
+  const seed = model.samples === 0;
+  const learning = !model.frozen || model.samples < BACKGROUND_WARMUP;
+  // A plain average of the frames seen so far until the learning rate takes over
+  const rate = Math.max(params.backgroundRate, 1 / (model.samples + 1));
+  const minSigma = Math.max(MIN_SIGMA, noiseFloor);
+  const gain = Math.max(0.01, exposureGain);
+
+  for (let i = 0; i < numCells; i++) {
+    const x = luma[i] / gain;
+    if (seed) {
+      mean[i] = x;
+      variance[i] = minSigma * minSigma;
+    }
+    const d = x - mean[i];
+    const threshold = params.foregroundSigmas * Math.max(minSigma, Math.sqrt(variance[i]));
+    // Ramps from 0 at the threshold to 1 at twice the threshold, so the foreground has soft edges
+    const fg = Math.min(1, Math.max(0, (Math.abs(d) - threshold) / threshold));
+    foreground[i] = fg;
+    if (learning) {
+      const r = rate * (1 - (1 - FOREGROUND_LEARNING) * fg);
+      mean[i] += r * d;
+      variance[i] += r * (d * d - variance[i]);
+    }
+    background[i] = Math.min(1, mean[i] * gain);
+  }
+  if (learning) model.samples++;
+};
@@ -0,0 +1,99 @@
+// Sensor calibration from captured dark (lens covered) and bright frames.
+// Works on the raw downsampled pixels, before any gain, offset or auto-exposure is applied.
+import { rawLuma } from './frameAnalysis';
+
+export interface CalibrationProfile {
+  // Mean raw luma with the lens covered
+  darkLevel: number;
+  // Raw luma of the bright reference (95th percentile of cells)
+  whiteLevel: number;
+  // Applied as (raw + offset) * gain, mapping darkLevel → 0 and whiteLevel → 1
+  offset: number;
+  gain: number;
+  // Temporal standard deviation of dark frames, in calibrated units
+  noiseFloor: number;
+  // Frames captured per phase
+  frames: number;
+  capturedAt: number;
+}
+
+export interface LumaStats {
+  frames: number;
+  // Mean of the per-cell temporal means
+  mean: number;
+  // 95th percentile of the per-cell temporal means
+  high: number;
+  // Root mean of the per-cell temporal variances
+  noise: number;
+}
+
+export interface LumaAccumulator {
+  add: (pixels: Uint8ClampedArray, numCells: number) => void;
+  frames: () => number;
+  stats: () => LumaStats;
+}
+
+const MIN_CONTRAST = 0.1;
+const GAIN_RANGE = [0.5, 8] as const;
+
+// Per-cell running mean and variance (Welford); restarts if the grid size changes mid-capture
+export const createLumaAccumulator = (): LumaAccumulator => {
+  let count = 0;
+  let mean = new Float64Array(0);
+  let m2 = new Float64Array(0);
+
+  const add = (pixels: Uint8ClampedArray, numCells: number) => {
+    if (mean.length !== numCells) {
+      count = 0;
+      mean = new Float64Array(numCells);
+      m2 = new Float64Array(numCells);
+    }
+    count++;
+    for (let i = 0; i < numCells; i++) {
+      const x = rawLuma(pixels, i << 2);
+      const delta = x - mean[i];
+      mean[i] += delta / count;
+      m2[i] += delta * (x - mean[i]);
+    }
+  };
+
+  const stats = (): LumaStats => {
+    const n = mean.length;
+    if (!count || !n) return { frames: 0, mean: 0, high: 0, noise: 0 };
+    let sum = 0;
+    let variance = 0;
+    for (let i = 0; i < n; i++) {
+      sum += mean[i];
+      variance += count > 1 ? m2[i] / (count - 1) : 0;
+    }
+    const sorted = Float64Array.from(mean).sort();
+    return {
+      frames: count,
+      mean: sum / n,
+      high: sorted[Math.min(n - 1, Math.floor(n * 0.95))],
+      noise: Math.sqrt(variance / n)
+    };
+  };
+
+  return { add, frames: () => count, stats };
+};
+
+// Throws when the bright capture is not meaningfully brighter than the dark one
+export const deriveCalibration = (dark: LumaStats, bright: LumaStats): CalibrationProfile => {
+  const darkLevel = dark.mean;
+  const whiteLevel = bright.high;
+  const span = whiteLevel - darkLevel;
+  if (span < MIN_CONTRAST) {
+    throw new Error(`Bright frames only ${(span * 100).toFixed(1)}% above dark; use a brighter reference or cover the lens fully`);
+  }
+  const gain = Math.max(GAIN_RANGE[0], Math.min(GAIN_RANGE[1], 1 / span));
+  return {
+    darkLevel,
+    whiteLevel,
+    offset: -darkLevel,
+    gain,
+    noiseFloor: dark.noise * gain,
+    frames: Math.min(dark.frames, bright.frames),
+    capturedAt: Date.now()
+  };
+};
@@ -0,0 +1,52 @@
+import type { GridFrame, GridRenderer } from './gridRenderer';
+import { getPalette } from './palettes';
+import { cellBrightness, cellGlyphIndex } from './cellShading';
+import { glyphFont, GlyphMetrics, measureGlyphs } from './glyphMetrics';
+
+// Reference Canvas2D path: one fillText per lit cell
+export const createCanvasRenderer = (): GridRenderer => {
+  let metrics: GlyphMetrics[] = [];
+  let metricsKey = '';
+
+  // Glyphs measured before the web font arrived would be placed with the fallback's metrics
+  document.fonts?.ready.then(() => { metricsKey = ''; });
+
+  const draw = (ctx: CanvasRenderingContext2D, frame: GridFrame) => {
+    const { cols, rows, cellSize, pixels, glyphs } = frame;
+    const { colorize } = getPalette(frame.palette);
+    const { width, height } = ctx.canvas;
+
+    const key = `${glyphs.key}|${cellSize}`;
+    if (key !== metricsKey) {
+      metrics = measureGlyphs(ctx, glyphs.chars, cellSize);
+      metricsKey = key;
+    }
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.font = glyphFont(cellSize);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const i = row * cols + col;
+        const brightness = cellBrightness(frame, i, col);
+        if (brightness < 0) continue;
+
+        // Color mapping
+        const ix = i << 2;
+        const glyph = cellGlyphIndex(frame, i, row, col, brightness);
+        const m = metrics[glyph];
+        ctx.fillStyle = colorize(brightness, pixels[ix], pixels[ix + 1], pixels[ix + 2]);
+        ctx.fillText(glyphs.chars[glyph], col * cellSize + m.dx, row * cellSize + m.dy, m.maxWidth);
+      }
+    }
+  };
+
+  return {
+    backend: 'canvas2d',
+    draw,
+    dispose: () => {}
+  };
+};
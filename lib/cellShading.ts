@@ -0,0 +1,47 @@
+import type { GridFrame } from './gridRenderer';
+import { glyphIndex } from './glyphSets';
+
+// Rain fainter than this leaves a dark cell blank
+const RAIN_VISIBLE = 0.04;
+
+// Final brightness of a lit cell (edge, motion, shimmer and rain applied), or -1 when the cell is blank
+export const cellBrightness = (frame: GridFrame, i: number, col: number) => {
+  const { lumaCutoff, edgeThreshold, motionThreshold, shimmer: shimmerAmount, rainLevel } = frame.shading;
+  const gain = frame.columnGain ? frame.gain * frame.columnGain[col] : frame.gain;
+  const rain = frame.rain ? frame.rain.intensity[i] * rainLevel : 0;
+  const l = frame.luma[i];
+
+  // Dark voids show the rain alone
+  if (l <= lumaCutoff) {
+    return rain < RAIN_VISIBLE ? -1 : Math.min(1, rain * gain);
+  }
+
+  let brightness = l;
+
+  // Edge enhancement
+  const edge = frame.edges[i];
+  if (edge > edgeThreshold) {
+    brightness = Math.min(1, brightness + edge * 1.5);
+  }
+
+  // Motion highlight
+  const motion = frame.motion[i];
+  if (motion > motionThreshold) {
+    brightness = Math.min(1, brightness + motion * 2);
+  }
+
+  // Rain shimmer
+  const shimmer = Math.sin(col * 0.3 + frame.phase) * shimmerAmount + (1 - shimmerAmount);
+  return Math.min(1, (brightness * shimmer + rain) * gain);
+};
+
+// Index into frame.glyphs.chars for a lit cell of the given final brightness. Under a rain layer, cycling sets
+// flip a cell's glyph each time a drop head enters it; scene edges take directional glyphs when enabled.
+export const cellGlyphIndex = (frame: GridFrame, i: number, row: number, col: number, brightness: number) => {
+  const seed = frame.rain ? frame.rain.glyphSeed[i] : Math.floor(frame.phase * 2);
+  const onEdge = frame.luma[i] > frame.shading.lumaCutoff && frame.edges[i] > frame.shading.edgeThreshold;
+  return glyphIndex(frame.glyphs, brightness, seed, row, col, onEdge ? frame.orientation[i] : -1);
+};
+
+export const cellGlyph = (frame: GridFrame, i: number, row: number, col: number, brightness: number) =>
+  frame.glyphs.chars[cellGlyphIndex(frame, i, row, col, brightness)];
@@ -0,0 +1,120 @@
+// Line parser, dispatcher and tab completion for the terminal console. Commands are plain data;
+// the app supplies them with the actions they drive.
+
+export interface ConsoleCommand {
+  name: string;
+  // Argument synopsis for help, e.g. '<param> <value>'
+  usage?: string;
+  summary: string;
+  // Candidates for the argument at `index`, given the arguments typed so far
+  complete?: (index: number, args: string[]) => string[];
+  // Hands the rest of the line over untokenized as a single argument, so free text keeps its quotes
+  raw?: boolean;
+  run: (args: string[]) => void | Promise<void>;
+}
+
+// Thrown for malformed input; the console shows the message as is
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+export const usageError = (command: ConsoleCommand) =>
+  new CommandError(`usage: ${command.name}${command.usage ? ` ${command.usage}` : ''}`);
+
+export interface Completion {
+  // The input line with the current word completed as far as it is unambiguous
+  line: string;
+  // Every match for the current word, when there is more than one
+  candidates: string[];
+}
+
+export interface CommandConsole {
+  commands: ConsoleCommand[];
+  execute: (line: string) => Promise<void>;
+  complete: (line: string) => Completion;
+}
+
+interface Token {
+  text: string;
+  // Where the token, quotes included, starts and ends in the line
+  start: number;
+  end: number;
+  // Opening quote, when the token has one
+  quote?: string;
+}
+
+const scanTokens = (line: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /"([^"]*)"?|'([^']*)'?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    tokens.push({
+      text: match[1] ?? match[2] ?? match[3],
+      start: match.index,
+      end: match.index + match[0].length,
+      quote: match[3] === undefined ? match[0][0] : undefined
+    });
+  }
+  return tokens;
+};
+
+// Whitespace-separated words; single or double quotes group words containing spaces
+export const tokenize = (line: string): string[] => scanTokens(line).map(t => t.text);
+
+const commonPrefix = (words: string[]) =>
+  words.reduce((prefix, word) => {
+    let n = 0;
+    while (n < prefix.length && n < word.length && prefix[n] === word[n]) n++;
+    return prefix.slice(0, n);
+  });
+
+export const createCommandConsole = (commands: ConsoleCommand[]): CommandConsole => {
+  const find = (name: string) => commands.find(c => c.name === name.toLowerCase());
+
+  const execute = async (line: string) => {
+    const [name, ...args] = tokenize(line);
+    if (!name) return;
+    const command = find(name);
+    if (!command) throw new CommandError(`unknown command: ${name} (try help)`);
+    if (command.raw) {
+      const rest = line.trim().replace(/^\S+\s*/, '');
+      await command.run(rest ? [rest] : []);
+      return;
+    }
+    await command.run(args);
+  };
+
+  const complete = (line: string): Completion => {
+    const scanned = scanTokens(line);
+    // The last token is being typed unless whitespace follows it; an open quote swallows trailing spaces
+    const last = scanned.length && scanned[scanned.length - 1].end === line.length ? scanned.pop() : undefined;
+    const tokens = scanned.map(t => t.text);
+    const word = last?.text ?? '';
+    let pool: string[];
+    if (tokens.length === 0) {
+      pool = commands.map(c => c.name);
+    } else {
+      const command = find(tokens[0]);
+      pool = command?.complete?.(tokens.length - 1, tokens.slice(1)) ?? [];
+    }
+
+    const matches = pool.filter(candidate => candidate.toLowerCase().startsWith(word.toLowerCase()));
+    if (matches.length === 0) return { line, candidates: [] };
+    // The completion replaces the whole token, re-quoted when it was quoted or now contains spaces
+    const head = line.slice(0, last?.start ?? line.length);
+    const quoteFor = (text: string) => last?.quote ?? (/\s/.test(text) ? '"' : '');
+    if (matches.length === 1) {
+      const quote = quoteFor(matches[0]);
+      return { line: `${head}${quote}${matches[0]}${quote} `, candidates: [] };
+    }
+    const prefix = commonPrefix(matches);
+    if (prefix.length <= word.length) return { line, candidates: matches };
+    // Still ambiguous, so the quote stays open for the rest of the word
+    return { line: `${head}${quoteFor(prefix)}${prefix}`, candidates: matches };
+  };
+
+  return { commands, execute, complete };
+};
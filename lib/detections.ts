@@ -0,0 +1,67 @@
+// Structured audit replies: a summary plus labelled boxes, parsed from the JSON the model was asked for
+// (see STRUCTURED_OUTPUT_PROMPT) and mapped from image coordinates back onto the canvas.
+import type { NormalizedRect } from './motionRegions';
+
+export interface Detection {
+  label: string;
+  // Normalized to the whole canvas, even when the audited frame was a crop
+  rect: NormalizedRect;
+}
+
+export interface StructuredReply {
+  summary: string;
+  detections: Detection[];
+}
+
+// Scale of the model's box coordinates
+const BOX_SCALE = 1000;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Models wrap JSON in ``` fences or surround it with prose even when told not to; take the outermost object
+const extractJson = (text: string) => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : null;
+};
+
+// Accepts [ymin, xmin, ymax, xmax] (as asked) in 0–1000 units; boxes that do not fit are dropped
+const toRect = (box: unknown, within: NormalizedRect): NormalizedRect | null => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(v => typeof v === 'number' && isFinite(v))) return null;
+  const [y0, x0, y1, x1] = box.map(v => clamp01(v / BOX_SCALE));
+  const w = Math.abs(x1 - x0), h = Math.abs(y1 - y0);
+  if (!w || !h) return null;
+  return {
+    x: within.x + Math.min(x0, x1) * within.w,
+    y: within.y + Math.min(y0, y1) * within.h,
+    w: w * within.w,
+    h: h * within.h
+  };
+};
+
+// Null when the text holds no usable JSON object. `within` is the part of the canvas the image showed.
+export const parseStructuredReply = (
+  text: string,
+  within: NormalizedRect = { x: 0, y: 0, w: 1, h: 1 }
+): StructuredReply | null => {
+  const json = extractJson(text);
+  if (!json) return null;
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object') return null;
+
+  const objects: unknown[] = Array.isArray(data.objects) ? data.objects : [];
+  const detections: Detection[] = [];
+  for (const object of objects) {
+    if (!object || typeof object !== 'object') continue;
+    const { label, box_2d } = object as { label?: unknown; box_2d?: unknown };
+    const rect = toRect(box_2d, within);
+    if (rect) detections.push({ label: typeof label === 'string' && label.trim() ? label.trim() : 'object', rect });
+  }
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+  return { summary, detections };
+};
@@ -0,0 +1,148 @@
+// Per-column drop simulation behind the Vertical Vision Stream. Drops read the scene grids as they fall:
+// edges and bright objects slow them down, brighten them and can split them, dark voids let them fall faintly.
+
+export interface RainParams {
+  // Drops started per column per second, relative to SPAWN_RATE; 0 stops new drops
+  density: number;
+  // Multiplier on the base fall speed
+  speed: number;
+  // Tail length in cells at the base speed
+  tail: number;
+  // How strongly drops react to the scene; 0 falls straight through it
+  interaction: number;
+}
+
+// Scene grids the drops interact with, cols × rows like the layer itself
+export interface RainField {
+  luma: Float32Array;
+  edges: Float32Array;
+}
+
+export interface RainLayer {
+  cols: number;
+  rows: number;
+  // 1 at a drop head, fading along its tail, 0 where no drop passed recently
+  intensity: Float32Array;
+  // Bumped every time a head enters the cell (wraps at 256), so glyphs flip as drops pass
+  glyphSeed: Uint8Array;
+}
+
+export interface RainSimulation {
+  // Advances by `dt` seconds; `speedScale` is an extra multiplier for audio modulation
+  update: (cols: number, rows: number, dt: number, params: RainParams, field?: RainField | null, speedScale?: number) => RainLayer;
+  reset: () => void;
+}
+
+interface Drop {
+  col: number;
+  y: number;
+  speed: number;
+  baseSpeed: number;
+  // Splits of splits are not split again
+  generation: number;
+}
+
+// Cells per second at speed 1
+const BASE_SPEED = 14;
+const SPAWN_RATE = 0.6;
+// Drops per column the simulation will hold at most
+const MAX_DROPS_PER_COLUMN = 4;
+// Edge strength a head must cross to be able to split
+const SPLIT_EDGE = 0.35;
+const MAX_GENERATION = 2;
+// Longest step simulated at once; longer gaps (background tabs) are clamped
+const MAX_DT = 0.1;
+
+export const createRainSimulation = (random: () => number = Math.random): RainSimulation => {
+  let layer: RainLayer = { cols: 0, rows: 0, intensity: new Float32Array(0), glyphSeed: new Uint8Array(0) };
+  let drops: Drop[] = [];
+
+  const createDrop = (col: number, y: number, speed: number, generation: number): Drop => {
+    const baseSpeed = BASE_SPEED * speed * (0.6 + random() * 0.8);
+    return { col, y, speed: baseSpeed, baseSpeed, generation };
+  };
+
+  const allocate = (cols: number, rows: number, params: RainParams) => {
+    layer = { cols, rows, intensity: new Float32Array(cols * rows), glyphSeed: new Uint8Array(cols * rows) };
+    drops = [];
+    // Start mid-fall rather than with an empty screen
+    const initial = Math.round(cols * params.density);
+    for (let k = 0; k < initial; k++) drops.push(createDrop(Math.floor(random() * cols), random() * rows, params.speed, 0));
+  };
+
+  const update = (cols: number, rows: number, dt: number, params: RainParams, field: RainField | null = null, speedScale = 1) => {
+    if (cols !== layer.cols || rows !== layer.rows) allocate(cols, rows, params);
+    const { intensity, glyphSeed } = layer;
+    const step = Math.min(MAX_DT, Math.max(0, dt));
+    const usableField = field && field.luma.length === cols * rows ? field : null;
+
+    // Tails fade over the time a base-speed drop needs to cover `tail` cells
+    const fade = Math.exp(-step * 3 * BASE_SPEED * params.speed * speedScale / Math.max(1, params.tail));
+    for (let i = 0; i < intensity.length; i++) intensity[i] *= fade;
+
+    const maxDrops = cols * MAX_DROPS_PER_COLUMN;
+    const spawnChance = params.density * SPAWN_RATE * step;
+    if (spawnChance > 0 && drops.length < maxDrops) {
+      for (let col = 0; col < cols; col++) {
+        if (random() < spawnChance) drops.push(createDrop(col, -random() * 2, params.speed, 0));
+      }
+    }
+
+    const { interaction } = params;
+    let population = drops.length;
+    const next: Drop[] = [];
+    for (const drop of drops) {
+      const row = Math.floor(drop.y);
+      let luma = 0.5, edge = 0;
+      if (usableField) {
+        // Heads still above the grid read the top row
+        const i = Math.max(0, Math.min(rows - 1, row)) * cols + drop.col;
+        luma = usableField.luma[i];
+        edge = usableField.edges[i];
+      }
+
+      // Edges and the bright half of the luma range act as obstacles
+      const obstacle = interaction * Math.max(edge, Math.max(0, luma - 0.5) * 2);
+      const target = drop.baseSpeed * (1 - 0.7 * obstacle);
+      drop.speed += (target - drop.speed) * Math.min(1, step * 8);
+
+      // Faint in dark voids, full strength over the scene, hotter on structure
+      const presence = usableField ? 0.3 + 0.7 * Math.min(1, luma * 1.5) : 1;
+      const level = Math.min(1, (1 - interaction) + interaction * presence + obstacle * 0.5);
+
+      const nextY = drop.y + drop.speed * speedScale * step;
+      const lastRow = Math.min(rows - 1, Math.floor(nextY));
+      // Every cell crossed this step gets the head, so fast drops leave no gaps
+      for (let r = Math.max(0, row + 1); r <= lastRow; r++) {
+        const i = r * cols + drop.col;
+        intensity[i] = Math.max(intensity[i], level);
+        glyphSeed[i] = (glyphSeed[i] + 1) & 0xff;
+
+        if (
+          usableField && drop.generation < MAX_GENERATION && usableField.edges[i] > SPLIT_EDGE &&
+          population < maxDrops && random() < interaction * 0.15
+        ) {
+          const side = drop.col + (random() < 0.5 ? -1 : 1);
+          if (side >= 0 && side < cols) {
+            next.push(createDrop(side, r, params.speed * (0.7 + random() * 0.4), drop.generation + 1));
+            population++;
+          }
+        }
+      }
+      drop.y = nextY;
+
+      // The tail lives on in `intensity` after the head leaves the grid
+      if (drop.y < rows) next.push(drop);
+    }
+    drops = next;
+    return layer;
+  };
+
+  return {
+    update,
+    reset: () => {
+      layer = { cols: 0, rows: 0, intensity: new Float32Array(0), glyphSeed: new Uint8Array(0) };
+      drops = [];
+    }
+  };
+};
@@ -0,0 +1,38 @@
+// e.g. sightos-2026-10-19T14-03-22.webm
+export const timestampedFilename = (prefix: string, extension: string, date = new Date()) => {
+  const stamp = date.toISOString().slice(0, 19).replace(/:/g, '-');
+  return `${prefix}-${stamp}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Revoke after the click has been dispatched
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadDataUrl = (dataUrl: string, filename: string) => {
+  const a = document.createElement('a');
+  a.href = dataUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+};
+
+// Decodes a base64 data URL without fetch(), which a strict connect-src (the desktop build's CSP) refuses
+export const dataUrlToBlob = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+  if (!match) throw new Error('Not a data URL');
+  const [, mime, base64, payload] = match;
+  if (!base64) return new Blob([decodeURIComponent(payload)], { type: mime });
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
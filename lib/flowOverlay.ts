@@ -0,0 +1,75 @@
+import { flowArrow, FlowField, flowSpeed } from './opticalFlow';
+import { glyphFont } from './glyphMetrics';
+
+export type FlowDisplay = 'off' | 'arrows' | 'streaks';
+
+export const FLOW_DISPLAYS: { id: FlowDisplay; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'arrows', label: 'Arrows' },
+  { id: 'streaks', label: 'Streaks' }
+];
+
+// Speed (cells per analyzed frame) that gets the hottest color
+const FULL_SPEED = 2;
+// Cells are batched into this many colors, one fill or stroke each
+const SPEED_LEVELS = 8;
+// Streak length per unit of speed, in cells
+const STREAK_SCALE = 2;
+
+// Green when slow through yellow to red when fast
+const speedColor = (level: number) => `hsl(${Math.round(120 - (120 * level) / (SPEED_LEVELS - 1))}, 100%, 55%)`;
+
+// Flow vectors over the grid, in cell units like the motion overlay: an arrow glyph on a dark cell, or a
+// streak trailing back from each cell along its motion. Cells slower than `minSpeed` are skipped.
+export const drawFlowOverlay = (
+  ctx: CanvasRenderingContext2D,
+  field: FlowField,
+  cellSize: number,
+  display: FlowDisplay,
+  minSpeed: number
+) => {
+  if (display === 'off') return;
+  const { cols, rows, flowX, flowY } = field;
+  const levels: number[][] = Array.from({ length: SPEED_LEVELS }, () => []);
+  for (let i = 0; i < cols * rows; i++) {
+    const speed = flowSpeed(flowX[i], flowY[i]);
+    if (speed <= minSpeed) continue;
+    levels[Math.min(SPEED_LEVELS - 1, Math.floor((speed / FULL_SPEED) * SPEED_LEVELS))].push(i);
+  }
+
+  ctx.save();
+  if (display === 'arrows') {
+    ctx.font = glyphFont(cellSize);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    levels.forEach((cells, level) => {
+      if (!cells.length) return;
+      ctx.fillStyle = '#000000';
+      for (const i of cells) {
+        const r = (i / cols) | 0;
+        ctx.fillRect((i - r * cols) * cellSize, r * cellSize, cellSize, cellSize);
+      }
+      ctx.fillStyle = speedColor(level);
+      for (const i of cells) {
+        const r = (i / cols) | 0;
+        ctx.fillText(flowArrow(flowX[i], flowY[i]), (i - r * cols + 0.5) * cellSize, (r + 0.5) * cellSize);
+      }
+    });
+  } else {
+    ctx.lineWidth = Math.max(1, cellSize / 6);
+    ctx.lineCap = 'round';
+    levels.forEach((cells, level) => {
+      if (!cells.length) return;
+      const path = new Path2D();
+      for (const i of cells) {
+        const r = (i / cols) | 0;
+        const x = (i - r * cols + 0.5) * cellSize, y = (r + 0.5) * cellSize;
+        path.moveTo(x, y);
+        path.lineTo(x - flowX[i] * STREAK_SCALE * cellSize, y - flowY[i] * STREAK_SCALE * cellSize);
+      }
+      ctx.strokeStyle = speedColor(level);
+      ctx.stroke(path);
+    });
+  }
+  ctx.restore();
+};
@@ -0,0 +1,362 @@
+// Per-cell scene analysis shared by the analysis worker and the main-thread fallback
+import { AnalysisParams, analysisParams, DEFAULT_RENDER_PARAMS } from './renderParams';
+import type { CalibrationProfile } from './calibration';
+import { BackgroundModel, createBackgroundModel, updateBackground } from './backgroundModel';
+import { createFlowScratch, estimateFlow, FlowField, FlowScratch, shiftGrid } from './opticalFlow';
+
+const DEFAULT_ANALYSIS_PARAMS = analysisParams(DEFAULT_RENDER_PARAMS);
+
+export interface CropRect {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+// Milliseconds spent in each analysis stage for one frame
+export interface AnalysisTimings {
+  // Drawing the source into the grid and reading it back; measured by the caller of analyzeFrame
+  downsample: number;
+  luma: number;
+  edges: number;
+  flow: number;
+  // Frame difference, motion history and the background model
+  motion: number;
+}
+
+export interface FrameAnalysis extends FlowField {
+  // Increments once per analyzed frame, so consumers can tell a new frame from a redraw of the last one
+  sequence: number;
+  cols: number;
+  rows: number;
+  // Downsampled RGBA, one pixel per cell
+  pixels: Uint8ClampedArray;
+  luma: Float32Array;
+  edges: Float32Array;
+  // Direction of the edge line through each cell in 45° steps: 0 '|', 1 '/', 2 '-', 3 '\\'. Meaningless where edges is 0.
+  orientation: Uint8Array;
+  motion: Float32Array;
+  motionHistory: Float32Array;
+  // How far each cell departs from the learned background, 0–1 (see lib/backgroundModel.ts)
+  foreground: Float32Array;
+  // Luma the background model expects per cell, at the current exposure
+  background: Float32Array;
+  // Frames the background model has learned since it was last reset
+  backgroundSamples: number;
+  backgroundFrozen: boolean;
+  signalMean: number;
+  minLuma: number;
+  maxLuma: number;
+  timings: AnalysisTimings;
+}
+
+// Sensor calibration and running analysis state. Offset, gain and noise floor stay neutral until a profile is applied.
+export interface AnalyzerState {
+  darkLevel: number;
+  whiteLevel: number;
+  gain: number;
+  offset: number;
+  calibrated: boolean;
+  calibrationFrames: number;
+  noiseFloor: number;
+  edgeThresholdLow: number;
+  edgeThresholdHigh: number;
+  exposureGain: number;
+  signalMean: number;
+  frameCount: number;
+  motionHistory: Float32Array;
+  prevLuma: Float32Array;
+  // Previous luma moved along the compensated global flow
+  shiftedLuma: Float32Array;
+  flow: FlowScratch;
+  background: BackgroundModel;
+  // Hysteresis scratch: accepted-edge marks and the flood-fill stack
+  edgeMarks: Uint8Array;
+  edgeStack: Int32Array;
+}
+
+// Noise-floor multiples below which frame differences and gradients count as sensor noise
+const MOTION_NOISE_SIGMAS = 3;
+const EDGE_NOISE_SIGMAS = 4;
+
+export const createAnalyzerState = (): AnalyzerState => ({
+  darkLevel: 0.02,
+  whiteLevel: 0.95,
+  gain: 1.0,
+  offset: 0.0,
+  calibrated: false,
+  calibrationFrames: 0,
+  noiseFloor: 0.01,
+  edgeThresholdLow: 0.1,
+  edgeThresholdHigh: 0.2,
+  exposureGain: 1.0,
+  signalMean: 0.5,
+  frameCount: 0,
+  motionHistory: new Float32Array(0),
+  prevLuma: new Float32Array(0),
+  shiftedLuma: new Float32Array(0),
+  flow: createFlowScratch(),
+  background: createBackgroundModel(),
+  edgeMarks: new Uint8Array(0),
+  edgeStack: new Int32Array(0)
+});
+
+// Installs a captured profile, or restores the neutral defaults when given null
+export const applyCalibration = (state: AnalyzerState, profile: CalibrationProfile | null) => {
+  const neutral = createAnalyzerState();
+  const source = profile ?? neutral;
+  state.darkLevel = source.darkLevel;
+  state.whiteLevel = source.whiteLevel;
+  state.offset = source.offset;
+  state.gain = source.gain;
+  state.noiseFloor = source.noiseFloor;
+  state.calibrated = !!profile;
+  state.calibrationFrames = profile?.frames ?? 0;
+};
+
+// Rec. 709 luma of the RGBA pixel at byte offset ix, 0–1
+export const rawLuma = (pixels: Uint8ClampedArray, ix: number) =>
+  (pixels[ix] * 0.2126 + pixels[ix + 1] * 0.7152 + pixels[ix + 2] * 0.0722) / 255;
+
+export const allocateAnalysis = (cols: number, rows: number): FrameAnalysis => {
+  const numCells = cols * rows;
+  return {
+    sequence: 0,
+    cols,
+    rows,
+    pixels: new Uint8ClampedArray(numCells * 4),
+    luma: new Float32Array(numCells),
+    edges: new Float32Array(numCells),
+    orientation: new Uint8Array(numCells),
+    motion: new Float32Array(numCells),
+    motionHistory: new Float32Array(numCells),
+    flowX: new Float32Array(numCells),
+    flowY: new Float32Array(numCells),
+    globalFlowX: 0,
+    globalFlowY: 0,
+    foreground: new Float32Array(numCells),
+    background: new Float32Array(numCells),
+    backgroundSamples: 0,
+    backgroundFrozen: false,
+    signalMean: 0,
+    minLuma: 0,
+    maxLuma: 0,
+    timings: { downsample: 0, luma: 0, edges: 0, flow: 0, motion: 0 }
+  };
+};
+
+// Detached copy; analyses owned by the analyzer are recycled (and may be transferred away) on the next frame
+export const cloneAnalysis = (a: FrameAnalysis): FrameAnalysis => ({
+  ...a,
+  pixels: a.pixels.slice(),
+  luma: a.luma.slice(),
+  edges: a.edges.slice(),
+  orientation: a.orientation.slice(),
+  motion: a.motion.slice(),
+  motionHistory: a.motionHistory.slice(),
+  flowX: a.flowX.slice(),
+  flowY: a.flowY.slice(),
+  foreground: a.foreground.slice(),
+  background: a.background.slice(),
+  timings: { ...a.timings }
+});
+
+// Buffers that can be handed between threads without copying
+export const analysisTransferables = (a: FrameAnalysis): Transferable[] => [
+  a.pixels.buffer,
+  a.luma.buffer,
+  a.edges.buffer,
+  a.orientation.buffer,
+  a.motion.buffer,
+  a.motionHistory.buffer,
+  a.flowX.buffer,
+  a.flowY.buffer,
+  a.foreground.buffer,
+  a.background.buffer
+];
+
+// Aspect-fit center crop of the source into a cols × rows grid
+export const centerCrop = (srcWidth: number, srcHeight: number, cols: number, rows: number): CropRect => {
+  const videoAspect = srcWidth / srcHeight;
+  const canvasAspect = cols / rows;
+
+  let sx = 0, sy = 0, sw = srcWidth || 640, sh = srcHeight || 480;
+
+  if (canvasAspect > videoAspect) {
+     sh = sw / canvasAspect;
+     sy = (srcHeight - sh) / 2;
+  } else {
+     sw = sh * canvasAspect;
+     sx = (srcWidth - sw) / 2;
+  }
+  return { sx, sy, sw, sh };
+};
+
+// Fills `out` from the downsampled RGBA `pixels`; `out` must already be sized to cols × rows
+export const analyzeFrame = (
+  pixels: Uint8ClampedArray,
+  out: FrameAnalysis,
+  state: AnalyzerState,
+  params: AnalysisParams = DEFAULT_ANALYSIS_PARAMS
+) => {
+  const { cols, rows, luma, edges, orientation, motion, timings } = out;
+  const numCells = cols * rows;
+  const cal = state;
+  let lap = performance.now();
+
+  out.sequence = ++cal.frameCount;
+  out.pixels.set(pixels.subarray(0, numCells * 4));
+
+  // No flow or frame difference on the first frame at a grid size
+  const hasPrevious = cal.prevLuma.length === numCells;
+  if (!hasPrevious) {
+    cal.prevLuma = new Float32Array(numCells);
+    cal.shiftedLuma = new Float32Array(numCells);
+  }
+  const prevLuma = cal.prevLuma;
+
+  // Calculate luma (Rec. 709 coefficients - scientific standard)
+  for (let i = 0; i < numCells; i++) {
+    const ix = i << 2;
+    const raw = rawLuma(pixels, ix);
+
+    // Sensor calibration: identity until a profile is applied
+    let calibrated = (raw + cal.offset) * cal.gain;
+    calibrated = Math.max(0, Math.min(1, calibrated));
+
+    // Adaptive exposure (subtle, behind-the-scenes)
+    calibrated = calibrated * cal.exposureGain;
+
+    luma[i] = calibrated;
+  }
+
+  // Track scene statistics (behind-the-scenes)
+  let sum = 0;
+  let minL = 1, maxL = 0;
+  for (let i = 0; i < numCells; i++) {
+    sum += luma[i];
+    if (luma[i] < minL) minL = luma[i];
+    if (luma[i] > maxL) maxL = luma[i];
+  }
+  cal.signalMean = sum / numCells;
+  out.signalMean = cal.signalMean;
+  out.minLuma = minL;
+  out.maxLuma = maxL;
+
+  // Auto exposure (behind-the-scenes, subtle)
+  const error = params.targetMean - cal.signalMean;
+  cal.exposureGain += error * 0.01;
+  cal.exposureGain = Math.max(params.exposureMin, Math.min(params.exposureMax, cal.exposureGain));
+  timings.luma = performance.now() - lap;
+  lap += timings.luma;
+
+  // Initialize motion history
+  if (cal.motionHistory.length !== numCells) {
+    cal.motionHistory = new Float32Array(numCells);
+  }
+
+  // Edges: Sobel gradient magnitude, then hysteresis. Cells above the high threshold seed edges, which grow
+  // through 8-connected neighbours above the low threshold. No non-maximum suppression: at one sample per
+  // glyph cell, thinning would erase most contours.
+  const noiseFloor = cal.calibrated ? cal.noiseFloor : 0;
+  cal.edgeThresholdLow = Math.max(params.edgeLow, noiseFloor * EDGE_NOISE_SIGMAS);
+  cal.edgeThresholdHigh = Math.max(params.edgeHigh, cal.edgeThresholdLow);
+  const low = cal.edgeThresholdLow;
+  const high = cal.edgeThresholdHigh;
+
+  if (cal.edgeMarks.length !== numCells) {
+    cal.edgeMarks = new Uint8Array(numCells);
+    cal.edgeStack = new Int32Array(numCells);
+  }
+  const marks = cal.edgeMarks;
+  const stack = cal.edgeStack;
+  marks.fill(0);
+  edges.fill(0);
+
+  let top = 0;
+  for (let r = 1; r < rows - 1; r++) {
+    for (let c = 1; c < cols - 1; c++) {
+      const i = r * cols + c;
+      const nw = luma[i - cols - 1], n = luma[i - cols], ne = luma[i - cols + 1];
+      const w = luma[i - 1], e = luma[i + 1];
+      const sw = luma[i + cols - 1], s = luma[i + cols], se = luma[i + cols + 1];
+      // Each Sobel kernel spans ±4, so /4 keeps a full black-to-white step at magnitude 1
+      const gx = (ne + 2 * e + se - nw - 2 * w - sw) / 4;
+      const gy = (sw + 2 * s + se - nw - 2 * n - ne) / 4;
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+      edges[i] = magnitude;
+      // The edge line runs perpendicular to the gradient: a horizontal gradient is a vertical edge.
+      // Folded into [0, π) and rounded to the nearest 45° bin.
+      let angle = Math.atan2(gy, gx);
+      if (angle < 0) angle += Math.PI;
+      orientation[i] = Math.round(angle / (Math.PI / 4)) & 3;
+      if (magnitude >= high) {
+        marks[i] = 1;
+        stack[top++] = i;
+      }
+    }
+  }
+
+  while (top > 0) {
+    const i = stack[--top];
+    const r = (i / cols) | 0;
+    const c = i - r * cols;
+    for (let dr = -1; dr <= 1; dr++) {
+      const nr = r + dr;
+      if (nr < 1 || nr >= rows - 1) continue;
+      for (let dc = -1; dc <= 1; dc++) {
+        const nc = c + dc;
+        if (nc < 1 || nc >= cols - 1) continue;
+        const j = nr * cols + nc;
+        if (!marks[j] && edges[j] >= low) {
+          marks[j] = 1;
+          stack[top++] = j;
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < numCells; i++) {
+    if (!marks[i]) edges[i] = 0;
+  }
+  timings.edges = performance.now() - lap;
+  lap += timings.edges;
+
+  if (hasPrevious) {
+    estimateFlow(prevLuma, luma, out, cal.flow, params.shakeCompensation);
+  } else {
+    out.flowX.fill(0);
+    out.flowY.fill(0);
+    out.globalFlowX = 0;
+    out.globalFlowY = 0;
+  }
+  timings.flow = performance.now() - lap;
+  lap += timings.flow;
+
+  // Against a camera that moved, compare with the previous frame moved along with it
+  let reference = prevLuma;
+  const shiftX = out.globalFlowX * params.shakeCompensation;
+  const shiftY = out.globalFlowY * params.shakeCompensation;
+  if (shiftX || shiftY) {
+    shiftGrid(prevLuma, cols, rows, shiftX, shiftY, cal.shiftedLuma);
+    reference = cal.shiftedLuma;
+  }
+
+  // Frame difference + motion tracking; differences within the sensor noise are ignored
+  const motionFloor = noiseFloor * MOTION_NOISE_SIGMAS;
+  const decay = params.motionDecay;
+  for (let i = 0; i < numCells; i++) {
+    const diff = prevLuma[i] ? Math.abs(luma[i] - reference[i]) : 0;
+    motion[i] = diff > motionFloor ? diff - motionFloor : 0;
+    cal.motionHistory[i] = cal.motionHistory[i] * decay + motion[i] * (1 - decay);
+  }
+  out.motionHistory.set(cal.motionHistory);
+
+  updateBackground(cal.background, luma, cal.exposureGain, noiseFloor, params, out.foreground, out.background);
+  out.backgroundSamples = cal.background.samples;
+  out.backgroundFrozen = cal.background.frozen;
+
+  // Store for next frame
+  prevLuma.set(luma);
+  timings.motion = performance.now() - lap;
+};
@@ -0,0 +1,169 @@
+import {
+  allocateAnalysis,
+  analysisTransferables,
+  analyzeFrame,
+  applyCalibration,
+  createAnalyzerState,
+  CropRect,
+  FrameAnalysis
+} from './frameAnalysis';
+import type { AnalysisRequest, AnalysisResponse } from './analysisWorker';
+import type { AnalysisParams } from './renderParams';
+import type { CalibrationProfile } from './calibration';
+import { applyBackgroundCommand, BackgroundCommand } from './backgroundModel';
+
+export type AnalyzerMode = 'worker' | 'main';
+
+// Anything an input source can hand to the analyzer
+export type FrameSource = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+export interface FrameAnalyzer {
+  readonly mode: AnalyzerMode;
+  // Hands the current source frame to the analyzer. Dropped (returns false) while a previous frame is still in flight.
+  submit: (source: FrameSource, crop: CropRect, cols: number, rows: number, params: AnalysisParams) => boolean;
+  // Most recent completed analysis, owned by the UI thread until the next one arrives
+  latest: () => FrameAnalysis | null;
+  // Sensor profile for the current camera; null for uncalibrated or synthetic sources
+  setCalibration: (profile: CalibrationProfile | null) => void;
+  // Freezes, resumes or restarts learning of the background model
+  background: (command: BackgroundCommand) => void;
+  dispose: () => void;
+}
+
+const canUseWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  (typeof VideoFrame !== 'undefined' || typeof createImageBitmap !== 'undefined');
+
+// Synchronous path for browsers without Worker + OffscreenCanvas support
+const createMainThreadAnalyzer = (): FrameAnalyzer => {
+  const state = createAnalyzerState();
+  const smallCanvas = document.createElement('canvas');
+  const smallCtx = smallCanvas.getContext('2d', { willReadFrequently: true });
+  let current: FrameAnalysis | null = null;
+
+  const submit = (source: FrameSource, crop: CropRect, cols: number, rows: number, params: AnalysisParams) => {
+    if (!smallCtx) return false;
+    const start = performance.now();
+    smallCanvas.width = cols;
+    smallCanvas.height = rows;
+    smallCtx.drawImage(source, crop.sx, crop.sy, crop.sw, crop.sh, 0, 0, cols, rows);
+    const pixels = smallCtx.getImageData(0, 0, cols, rows).data;
+    const downsample = performance.now() - start;
+
+    if (!current || current.cols !== cols || current.rows !== rows) {
+      current = allocateAnalysis(cols, rows);
+    }
+    analyzeFrame(pixels, current, state, params);
+    current.timings.downsample = downsample;
+    return true;
+  };
+
+  return {
+    mode: 'main',
+    submit,
+    latest: () => current,
+    setCalibration: (profile) => applyCalibration(state, profile),
+    background: (command) => applyBackgroundCommand(state.background, command),
+    dispose: () => { current = null; }
+  };
+};
+
+// Worker path: one frame in flight at a time, two buffer sets ping-ponged between threads
+const createWorkerAnalyzer = (onFailure: () => void): FrameAnalyzer => {
+  const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  let front: FrameAnalysis | null = null;
+  let inFlight = false;
+  let disposed = false;
+
+  const post = (msg: AnalysisRequest, transfer: Transferable[]) => worker.postMessage(msg, transfer);
+
+  worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+    inFlight = false;
+    const msg = e.data;
+    if (msg.type === 'error') {
+      console.error('Analysis worker error:', msg.message);
+      return;
+    }
+    // Hand the previous buffers back for reuse, keep the new ones for compositing
+    if (front) post({ type: 'release', analysis: front }, analysisTransferables(front));
+    front = msg.analysis;
+  };
+
+  worker.onerror = (e) => {
+    console.error('Analysis worker crashed:', e.message);
+    if (!disposed) onFailure();
+  };
+
+  const submit = (source: FrameSource, crop: CropRect, cols: number, rows: number, params: AnalysisParams) => {
+    if (inFlight || disposed) return false;
+    inFlight = true;
+
+    const send = (frame: VideoFrame | ImageBitmap) => {
+      if (disposed) { frame.close(); return; }
+      post({ type: 'frame', frame, crop, cols, rows, params }, [frame]);
+    };
+
+    try {
+      if (typeof VideoFrame !== 'undefined') {
+        // Canvas and image sources carry no timestamp of their own
+        send(new VideoFrame(source, { timestamp: Math.round(performance.now() * 1000) }));
+      } else {
+        createImageBitmap(source).then(send, () => { inFlight = false; });
+      }
+    } catch {
+      inFlight = false;
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    mode: 'worker',
+    submit,
+    latest: () => front,
+    setCalibration: (profile) => post({ type: 'calibrate', profile }, []),
+    background: (command) => post({ type: 'background', command }, []),
+    dispose: () => {
+      disposed = true;
+      worker.terminate();
+      front = null;
+    }
+  };
+};
+
+// Prefers the worker; if it cannot start or crashes, later calls transparently run on the main thread
+export const createFrameAnalyzer = (): FrameAnalyzer => {
+  if (!canUseWorker()) return createMainThreadAnalyzer();
+
+  let active: FrameAnalyzer;
+  // Re-applied if the worker dies and the main-thread analyzer takes over
+  let calibration: CalibrationProfile | null = null;
+  let frozen = false;
+  try {
+    active = createWorkerAnalyzer(() => {
+      active.dispose();
+      active = createMainThreadAnalyzer();
+      active.setCalibration(calibration);
+      if (frozen) active.background('freeze');
+    });
+  } catch (err) {
+    console.warn('Analysis worker unavailable, analyzing on main thread:', err);
+    return createMainThreadAnalyzer();
+  }
+
+  return {
+    get mode() { return active.mode; },
+    submit: (source, crop, cols, rows, params) => active.submit(source, crop, cols, rows, params),
+    latest: () => active.latest(),
+    setCalibration: (profile) => {
+      calibration = profile;
+      active.setCalibration(profile);
+    },
+    background: (command) => {
+      if (command !== 'relearn') frozen = command === 'freeze';
+      active.background(command);
+    },
+    dispose: () => active.dispose()
+  };
+};
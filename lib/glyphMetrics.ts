@@ -0,0 +1,45 @@
+// Measured placement of each glyph inside its cell. Fallback fonts (katakana, custom symbols) are rarely
+// monospace, so glyphs are centered on their ink and squeezed horizontally when they would spill over.
+
+export interface GlyphMetrics {
+  // Offset of the fillText origin from the cell's top-left corner, with textBaseline 'alphabetic'
+  dx: number;
+  dy: number;
+  // fillText maxWidth: the natural advance, or less to compress a glyph wider than the cell
+  maxWidth: number;
+}
+
+// Ink may use this share of the cell, leaving a gap between neighbours
+const FILL = 0.9;
+
+export const glyphFont = (cellSize: number) => `bold ${cellSize}px 'Fira Code', monospace`;
+
+export const measureGlyphs = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  chars: string[],
+  cellSize: number
+): GlyphMetrics[] => {
+  ctx.save();
+  ctx.font = glyphFont(cellSize);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+  const limit = cellSize * FILL;
+  const metrics = chars.map(ch => {
+    const m = ctx.measureText(ch);
+    const left = m.actualBoundingBoxLeft, right = m.actualBoundingBoxRight;
+    const ascent = m.actualBoundingBoxAscent, descent = m.actualBoundingBoxDescent;
+    const inkWidth = left + right;
+    const inkHeight = ascent + descent;
+    if (!(inkWidth > 0) || !(inkHeight > 0)) {
+      return { dx: 0, dy: cellSize * 0.8, maxWidth: Math.max(1, m.width) };
+    }
+    const scale = Math.min(1, limit / inkWidth);
+    return {
+      dx: (cellSize - inkWidth * scale) / 2 + left * scale,
+      dy: (cellSize - inkHeight) / 2 + ascent,
+      maxWidth: Math.max(1, m.width * scale)
+    };
+  });
+  ctx.restore();
+  return metrics;
+};
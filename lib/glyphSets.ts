@@ -0,0 +1,86 @@
+// Character sets the grid is drawn with. 'cycle' sets give every cell a glyph that flips as rain passes over it;
+// 'ramp' sets are ordered dark to bright and pick the glyph from the cell's final brightness.
+
+export type GlyphSetId = 'binary' | 'katakana' | 'hex' | 'ascii-short' | 'ascii-long' | 'custom';
+
+export type GlyphMode = 'cycle' | 'ramp';
+
+export interface GlyphSetSpec {
+  id: GlyphSetId;
+  label: string;
+  chars: string;
+  mode: GlyphMode;
+}
+
+export const GLYPH_SETS: GlyphSetSpec[] = [
+  // '1' first keeps the original checkerboard parity
+  { id: 'binary', label: 'Binary', chars: '10', mode: 'cycle' },
+  { id: 'katakana', label: 'Katakana', chars: 'ｦｧｨｩｪｫｬｭｮｯｱｲｳｴｵｶｷｸｹｺｻｼｽｾｿﾀﾁﾂﾃﾄﾅﾆﾇﾈﾉﾊﾋﾌﾍﾎﾏﾐﾑﾒﾓﾔﾕﾖﾗﾘﾙﾚﾛﾜﾝ', mode: 'cycle' },
+  { id: 'hex', label: 'Hex', chars: '0123456789ABCDEF', mode: 'cycle' },
+  { id: 'ascii-short', label: 'ASCII ramp', chars: '.:-=+*#%@', mode: 'ramp' },
+  { id: 'ascii-long', label: 'ASCII ramp (long)', chars: '.\'`^",:;Il!i><~+_-?][}{1)(|\\/tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$', mode: 'ramp' },
+  { id: 'custom', label: 'Custom', chars: '', mode: 'cycle' }
+];
+
+// Drawn instead of the set on edge cells, indexed by FrameAnalysis.orientation
+export const DIRECTIONAL_GLYPHS = ['|', '/', '-', '\\'];
+
+// Bounds the custom alphabet the pickers and the WebGL atlas have to handle
+export const MAX_CUSTOM_GLYPHS = 64;
+
+export interface GlyphSettings {
+  set: GlyphSetId;
+  // Alphabet of the 'custom' set, in ramp order when customMode is 'ramp'
+  custom: string;
+  customMode: GlyphMode;
+  // Edge cells show a glyph following the edge direction
+  directional: boolean;
+}
+
+export const DEFAULT_GLYPH_SETTINGS: GlyphSettings = { set: 'binary', custom: '', customMode: 'cycle', directional: false };
+
+// Resolved form consumed by the renderers
+export interface GlyphTable {
+  // Identity for atlas and metrics caches
+  key: string;
+  // The set first, then DIRECTIONAL_GLYPHS when directional is on
+  chars: string[];
+  // Glyphs in the set itself
+  count: number;
+  mode: GlyphMode;
+  directional: boolean;
+}
+
+// Unique non-whitespace characters in order. Limited to the Basic Multilingual Plane so grid recordings
+// can store every glyph as one 16-bit code.
+export const parseAlphabet = (text: string) =>
+  Array.from(new Set(Array.from(text).filter(ch => !/\s/.test(ch) && ch.length === 1))).slice(0, MAX_CUSTOM_GLYPHS);
+
+export const buildGlyphTable = (settings: GlyphSettings): GlyphTable => {
+  const spec = GLYPH_SETS.find(s => s.id === settings.set) ?? GLYPH_SETS[0];
+  let chars = spec.id === 'custom' ? parseAlphabet(settings.custom) : Array.from(spec.chars);
+  let mode = spec.id === 'custom' ? settings.customMode : spec.mode;
+  if (!chars.length) {
+    chars = Array.from(GLYPH_SETS[0].chars);
+    mode = GLYPH_SETS[0].mode;
+  }
+  const all = settings.directional ? [...chars, ...DIRECTIONAL_GLYPHS] : chars;
+  return {
+    key: `${mode}:${settings.directional ? 'd' : ''}:${all.join('')}`,
+    chars: all,
+    count: chars.length,
+    mode,
+    directional: settings.directional
+  };
+};
+
+export const DEFAULT_GLYPH_TABLE = buildGlyphTable(DEFAULT_GLYPH_SETTINGS);
+
+// Index into table.chars for a lit cell. `orientation` is the cell's edge direction, or -1 off edges.
+// The WebGL shader mirrors this.
+export const glyphIndex = (table: GlyphTable, brightness: number, seed: number, row: number, col: number, orientation: number) => {
+  if (table.directional && orientation >= 0) return table.count + orientation;
+  if (table.mode === 'ramp') return Math.min(table.count - 1, Math.floor(brightness * table.count));
+  // Odd multipliers keep the binary set's (row + col) parity while spreading larger sets
+  return (row * 31 + col * 17 + seed) % table.count;
+};
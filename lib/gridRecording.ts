@@ -0,0 +1,226 @@
+import type { GridFrame } from './gridRenderer';
+import { cellBrightness, cellGlyph } from './cellShading';
+
+// Raw glyph-grid capture: per frame, the character and brightness of every cell.
+// Enough to replay a session as text or re-render it at another resolution.
+//
+// Each frame carries its own cell size, since adaptive quality can change it mid-recording; the header holds
+// the size at the start.
+//
+// NDJSON: one header line, then one line per frame with `chars` (rows joined by '\n', blank cells as ' ')
+//         and `brightness` (base64 of one byte per cell).
+// Binary (.sgrd, little endian):
+//   header  'SGRD' u16 version, u16 cellSize, f64 startedAt (epoch ms), u8 palette length, palette id (UTF-8)
+//   frame   u32 t (ms since start), u16 cols, u16 rows, u16 cellSize, cols*rows u16 char codes (0 = blank),
+//           cols*rows brightness bytes
+
+export type GridRecordingFormat = 'ndjson' | 'binary';
+
+export const GRID_RECORDING_VERSION = 2;
+const MAGIC = 'SGRD';
+
+// Version 1 had no palette and no per-frame cell size; it predates any release worth reading back
+const checkVersion = (version: number) => {
+  if (version !== GRID_RECORDING_VERSION) {
+    throw new Error(`Unsupported grid recording version ${version} (expected ${GRID_RECORDING_VERSION})`);
+  }
+};
+
+export interface GridRecordingHeader {
+  version: number;
+  cellSize: number;
+  startedAt: number;
+  palette?: string;
+}
+
+export interface GridRecordingFrame {
+  // ms since the recording started
+  t: number;
+  cols: number;
+  rows: number;
+  cellSize: number;
+  // UTF-16 character code per cell, 0 for blank
+  chars: Uint16Array;
+  // 0–255 per cell
+  brightness: Uint8Array;
+}
+
+export interface GridRecording {
+  header: GridRecordingHeader;
+  frames: GridRecordingFrame[];
+}
+
+export const sampleGridFrame = (frame: GridFrame, t: number): GridRecordingFrame => {
+  const { cols, rows, cellSize } = frame;
+  const chars = new Uint16Array(cols * rows);
+  const brightness = new Uint8Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const i = row * cols + col;
+      const b = cellBrightness(frame, i, col);
+      if (b < 0) continue;
+      chars[i] = cellGlyph(frame, i, row, col, b).charCodeAt(0);
+      brightness[i] = Math.round(Math.min(1, b) * 255);
+    }
+  }
+  return { t, cols, rows, cellSize, chars, brightness };
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const gridFrameToText = (frame: GridRecordingFrame) => {
+  const lines: string[] = [];
+  for (let row = 0; row < frame.rows; row++) {
+    let line = '';
+    for (let col = 0; col < frame.cols; col++) {
+      const code = frame.chars[row * frame.cols + col];
+      line += code ? String.fromCharCode(code) : ' ';
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+};
+
+export const encodeHeaderNdjson = (header: GridRecordingHeader) =>
+  JSON.stringify({ type: 'header', ...header }) + '\n';
+
+export const encodeFrameNdjson = (frame: GridRecordingFrame) =>
+  JSON.stringify({
+    type: 'frame',
+    t: frame.t,
+    cols: frame.cols,
+    rows: frame.rows,
+    cellSize: frame.cellSize,
+    chars: gridFrameToText(frame),
+    brightness: toBase64(frame.brightness)
+  }) + '\n';
+
+export const encodeHeaderBinary = (header: GridRecordingHeader) => {
+  const palette = new TextEncoder().encode(header.palette ?? '').subarray(0, 255);
+  const out = new Uint8Array(17 + palette.length);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) view.setUint8(i, MAGIC.charCodeAt(i));
+  view.setUint16(4, header.version, true);
+  view.setUint16(6, header.cellSize, true);
+  view.setFloat64(8, header.startedAt, true);
+  view.setUint8(16, palette.length);
+  out.set(palette, 17);
+  return out;
+};
+
+export const encodeFrameBinary = (frame: GridRecordingFrame) => {
+  const numCells = frame.cols * frame.rows;
+  const out = new Uint8Array(10 + numCells * 3);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, Math.round(frame.t), true);
+  view.setUint16(4, frame.cols, true);
+  view.setUint16(6, frame.rows, true);
+  view.setUint16(8, frame.cellSize, true);
+  for (let i = 0; i < numCells; i++) view.setUint16(10 + i * 2, frame.chars[i], true);
+  out.set(frame.brightness, 10 + numCells * 2);
+  return out;
+};
+
+const decodeGridRecordingNdjson = (text: string): GridRecording => {
+  let header: GridRecordingHeader | null = null;
+  const frames: GridRecordingFrame[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    const entry = JSON.parse(line);
+    if (entry.type === 'header') {
+      checkVersion(entry.version);
+      header = { version: entry.version, cellSize: entry.cellSize, startedAt: entry.startedAt, palette: entry.palette };
+    } else if (entry.type === 'frame') {
+      const chars = new Uint16Array(entry.cols * entry.rows);
+      const rows: string[] = entry.chars.split('\n');
+      rows.forEach((line, row) => {
+        for (let col = 0; col < entry.cols; col++) {
+          const ch = line.charCodeAt(col);
+          chars[row * entry.cols + col] = ch && ch !== 32 ? ch : 0;
+        }
+      });
+      frames.push({
+        t: entry.t,
+        cols: entry.cols,
+        rows: entry.rows,
+        cellSize: entry.cellSize,
+        chars,
+        brightness: fromBase64(entry.brightness)
+      });
+    }
+  }
+  if (!header) throw new Error('Grid recording has no header');
+  return { header, frames };
+};
+
+const decodeGridRecordingBinary = (buffer: ArrayBuffer): GridRecording => {
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (magic !== MAGIC) throw new Error('Not a grid recording');
+
+  checkVersion(view.getUint16(4, true));
+  const paletteLength = view.getUint8(16);
+  const header: GridRecordingHeader = {
+    version: view.getUint16(4, true),
+    cellSize: view.getUint16(6, true),
+    startedAt: view.getFloat64(8, true),
+    palette: paletteLength ? new TextDecoder().decode(new Uint8Array(buffer, 17, paletteLength)) : undefined
+  };
+  const frames: GridRecordingFrame[] = [];
+  let offset = 17 + paletteLength;
+  while (offset + 10 <= buffer.byteLength) {
+    const t = view.getUint32(offset, true);
+    const cols = view.getUint16(offset + 4, true);
+    const rows = view.getUint16(offset + 6, true);
+    const cellSize = view.getUint16(offset + 8, true);
+    const numCells = cols * rows;
+    offset += 10;
+    const chars = new Uint16Array(numCells);
+    for (let i = 0; i < numCells; i++) chars[i] = view.getUint16(offset + i * 2, true);
+    offset += numCells * 2;
+    frames.push({ t, cols, rows, cellSize, chars, brightness: new Uint8Array(buffer.slice(offset, offset + numCells)) });
+    offset += numCells;
+  }
+  return { header, frames };
+};
+
+// Either format, told apart by the binary magic
+export const decodeGridRecording = (buffer: ArrayBuffer): GridRecording => {
+  const head = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength));
+  return String.fromCharCode(...head) === MAGIC
+    ? decodeGridRecordingBinary(buffer)
+    : decodeGridRecordingNdjson(new TextDecoder().decode(buffer));
+};
+
+// Frame showing at `t` ms into the recording, or null before the first one
+export const gridRecordingFrameAt = (frames: GridRecordingFrame[], t: number) => {
+  let lo = 0, hi = frames.length - 1, found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found >= 0 ? frames[found] : null;
+};
+
+// Grey cols × rows RGBA image of the frame's brightness, one pixel per cell, for feeding back into the analyzer
+export const gridFrameToPixels = (frame: GridRecordingFrame, out = new Uint8ClampedArray(frame.cols * frame.rows * 4)) => {
+  for (let i = 0; i < frame.cols * frame.rows; i++) {
+    const v = frame.brightness[i];
+    out[i * 4] = out[i * 4 + 1] = out[i * 4 + 2] = v;
+    out[i * 4 + 3] = 255;
+  }
+  return out;
+};
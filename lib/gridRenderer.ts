@@ -0,0 +1,55 @@
+import { createCanvasRenderer } from './canvasRenderer';
+import { createWebGLRenderer } from './webglRenderer';
+import type { PaletteId } from './palettes';
+import type { ShadingParams } from './renderParams';
+import type { RainLayer } from './digitalRain';
+import type { GlyphTable } from './glyphSets';
+import type { FlowField } from './opticalFlow';
+
+// Per-frame analysis output consumed by the renderers. All grids are cols × rows, row-major.
+export interface GridFrame {
+  // FrameAnalysis.sequence; repeats while the renderer redraws a frame the analyzer has not replaced yet
+  sequence: number;
+  cols: number;
+  rows: number;
+  cellSize: number;
+  // Downsampled RGBA source, one pixel per cell (used by chroma-preserving palettes)
+  pixels: Uint8ClampedArray;
+  luma: Float32Array;
+  edges: Float32Array;
+  // Quantized edge direction per cell (see FrameAnalysis.orientation)
+  orientation: Uint8Array;
+  motion: Float32Array;
+  phase: number;
+  palette: PaletteId;
+  shading: ShadingParams;
+  // Brightness multiplier applied after shading (1 = none); driven by audio
+  gain: number;
+  // Optional per-column brightness multiplier, `cols` entries
+  columnGain: Float32Array | null;
+  // Digital rain over the same grid; null renders the scene alone
+  rain: RainLayer | null;
+  glyphs: GlyphTable;
+  // Optical flow of the analysis this frame was drawn from; null when there is none
+  flow: FlowField | null;
+}
+
+export type RendererBackend = 'webgl2' | 'canvas2d';
+
+export interface GridRenderer {
+  readonly backend: RendererBackend;
+  // Draws the glyph grid onto the visible 2D canvas (which stays 2D so snapshots and overlays work with either backend)
+  draw: (ctx: CanvasRenderingContext2D, frame: GridFrame) => void;
+  dispose: () => void;
+}
+
+// Prefer the WebGL2 backend, fall back to per-cell Canvas2D text when it is unavailable
+export const createGridRenderer = (): GridRenderer => {
+  try {
+    const gl = createWebGLRenderer();
+    if (gl) return gl;
+  } catch (err) {
+    console.warn('WebGL2 renderer unavailable, using Canvas2D:', err);
+  }
+  return createCanvasRenderer();
+};
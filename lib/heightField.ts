@@ -0,0 +1,171 @@
+// 3D view of the analysis grid: each cell becomes a vertex raised toward the viewer by its luma or edge
+// strength, projected in perspective from an orbit camera and drawn with Canvas2D as a wireframe or glyphs.
+import type { GridFrame } from './gridRenderer';
+import { getPalette } from './palettes';
+import { glyphFont } from './glyphMetrics';
+import { glyphIndex } from './glyphSets';
+
+export type SpatialDepth = 'luma' | 'edges';
+export type SpatialStyle = 'wireframe' | 'glyphs';
+
+export interface SpatialOptions {
+  depth: SpatialDepth;
+  style: SpatialStyle;
+  // Height of a full-strength cell, as a share of the mesh width
+  relief: number;
+}
+
+export const DEFAULT_SPATIAL_OPTIONS: SpatialOptions = { depth: 'luma', style: 'wireframe', relief: 0.35 };
+
+// Radians; zoom 1 frames the whole mesh
+export interface OrbitCamera {
+  yaw: number;
+  pitch: number;
+  zoom: number;
+}
+
+// Turned slightly so the relief reads at first sight
+export const DEFAULT_ORBIT: OrbitCamera = { yaw: -0.45, pitch: 0.35, zoom: 1 };
+
+const MAX_PITCH = 1.4;
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 5;
+
+export const clampOrbit = (camera: OrbitCamera): OrbitCamera => ({
+  yaw: camera.yaw,
+  pitch: Math.max(-MAX_PITCH, Math.min(MAX_PITCH, camera.pitch)),
+  zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, camera.zoom))
+});
+
+// Denser grids are sampled with a stride, keeping the mesh within this many vertices per row
+const MAX_MESH_COLS = 120;
+const FIELD_OF_VIEW = Math.PI / 3.5;
+// Vertices closer to the camera than this (mesh widths) are dropped
+const NEAR = 0.05;
+// Sobel magnitudes rarely pass 0.3; scaled so strong contours reach full height
+const EDGE_GAIN = 3;
+// Wireframe segments are grouped into this many brightness levels, one stroke each
+const LEVELS = 12;
+// Glyphs smaller than this (px) are not drawn
+const MIN_GLYPH_PX = 3;
+
+export interface HeightFieldRenderer {
+  draw: (ctx: CanvasRenderingContext2D, frame: GridFrame, camera: OrbitCamera, options: SpatialOptions) => void;
+}
+
+export const createHeightFieldRenderer = (): HeightFieldRenderer => {
+  // Projected vertices, reused across frames
+  let screenX = new Float32Array(0);
+  let screenY = new Float32Array(0);
+  let distance = new Float32Array(0);
+  let height = new Float32Array(0);
+  let order = new Uint32Array(0);
+
+  const draw = (ctx: CanvasRenderingContext2D, frame: GridFrame, camera: OrbitCamera, options: SpatialOptions) => {
+    const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    if (frame.cols < 2 || frame.rows < 2) return;
+
+    const stride = Math.max(1, Math.ceil(frame.cols / MAX_MESH_COLS));
+    const meshCols = Math.ceil(frame.cols / stride);
+    const meshRows = Math.ceil(frame.rows / stride);
+    const count = meshCols * meshRows;
+    if (screenX.length < count) {
+      screenX = new Float32Array(count);
+      screenY = new Float32Array(count);
+      distance = new Float32Array(count);
+      height = new Float32Array(count);
+      order = new Uint32Array(count);
+    }
+
+    // Mesh spans x in [-1, 1] and keeps the grid's aspect ratio in y; heights rise along +z toward the viewer
+    const halfHeight = frame.rows / frame.cols;
+    const focal = canvasHeight / 2 / Math.tan(FIELD_OF_VIEW / 2);
+    const fit = Math.max(focal / (canvasWidth / 2), halfHeight * focal / (canvasHeight / 2)) * 1.1;
+    const cameraDistance = (fit + options.relief) / camera.zoom;
+    const cosYaw = Math.cos(camera.yaw), sinYaw = Math.sin(camera.yaw);
+    const cosPitch = Math.cos(camera.pitch), sinPitch = Math.sin(camera.pitch);
+    const source = options.depth === 'edges' ? frame.edges : frame.luma;
+    const gain = options.depth === 'edges' ? EDGE_GAIN : 1;
+    const cx = canvasWidth / 2, cy = canvasHeight / 2;
+
+    for (let r = 0; r < meshRows; r++) {
+      const row = Math.min(frame.rows - 1, r * stride);
+      const y = halfHeight - (row / (frame.rows - 1)) * 2 * halfHeight;
+      for (let c = 0; c < meshCols; c++) {
+        const col = Math.min(frame.cols - 1, c * stride);
+        const v = r * meshCols + c;
+        const h = Math.min(1, source[row * frame.cols + col] * gain);
+        const x = (col / (frame.cols - 1)) * 2 - 1;
+        const z = h * options.relief;
+        // Yaw turns about the vertical axis, then pitch tips the mesh toward or away from the camera
+        const x1 = x * cosYaw + z * sinYaw;
+        const z1 = z * cosYaw - x * sinYaw;
+        const y2 = y * cosPitch - z1 * sinPitch;
+        const z2 = y * sinPitch + z1 * cosPitch;
+        const d = cameraDistance - z2;
+        height[v] = h;
+        distance[v] = d;
+        screenX[v] = cx + (x1 * focal) / d;
+        screenY[v] = cy - (y2 * focal) / d;
+      }
+    }
+
+    const palette = getPalette(frame.palette);
+    if (options.style === 'wireframe') {
+      const paths = Array.from({ length: LEVELS }, () => new Path2D());
+      const segment = (a: number, b: number) => {
+        if (distance[a] < NEAR || distance[b] < NEAR) return;
+        const level = Math.min(LEVELS - 1, Math.floor(((height[a] + height[b]) / 2) * LEVELS));
+        paths[level].moveTo(screenX[a], screenY[a]);
+        paths[level].lineTo(screenX[b], screenY[b]);
+      };
+      for (let r = 0; r < meshRows; r++) {
+        for (let c = 0; c < meshCols; c++) {
+          const v = r * meshCols + c;
+          if (c + 1 < meshCols) segment(v, v + 1);
+          if (r + 1 < meshRows) segment(v, v + meshCols);
+        }
+      }
+      ctx.lineWidth = 1;
+      paths.forEach((path, level) => {
+        // Flat areas stay faintly visible so the mesh keeps its shape in the dark
+        ctx.strokeStyle = palette.colorize(0.2 + 0.8 * ((level + 0.5) / LEVELS), 0, 255, 0);
+        ctx.stroke(path);
+      });
+      return;
+    }
+
+    // Glyphs: one per vertex, scaled with distance and drawn far to near so closer ones overlap
+    const cellWorld = 2 / meshCols;
+    const back = order.subarray(0, count);
+    for (let v = 0; v < count; v++) back[v] = v;
+    back.sort((a, b) => distance[b] - distance[a]);
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    let fontPx = 0;
+    for (const v of back) {
+      const h = height[v];
+      const d = distance[v];
+      if (d < NEAR || h < 0.02) continue;
+      const px = Math.round((cellWorld * focal) / d);
+      if (px < MIN_GLYPH_PX) continue;
+      if (px !== fontPx) {
+        fontPx = px;
+        ctx.font = glyphFont(px);
+      }
+      const r = (v / meshCols) | 0;
+      const c = v - r * meshCols;
+      const i = Math.min(frame.rows - 1, r * stride) * frame.cols + Math.min(frame.cols - 1, c * stride);
+      const edge = frame.edges[i] > frame.shading.edgeThreshold ? frame.orientation[i] : -1;
+      const glyph = frame.glyphs.chars[glyphIndex(frame.glyphs, h, 0, r, c, edge)];
+      ctx.fillStyle = palette.colorize(0.15 + 0.85 * h, frame.pixels[i * 4], frame.pixels[i * 4 + 1], frame.pixels[i * 4 + 2]);
+      ctx.fillText(glyph, screenX[v], screenY[v]);
+    }
+    ctx.restore();
+  };
+
+  return { draw };
+};
@@ -0,0 +1,81 @@
+import type { LogEntry } from '../types';
+
+export type LogType = LogEntry['type'];
+export type LogExportFormat = 'json' | 'ndjson' | 'text';
+
+export const LOG_TYPES: { id: LogType; label: string }[] = [
+  { id: 'system', label: 'SYS' },
+  { id: 'analysis', label: 'AI' },
+  { id: 'override', label: 'OVR' },
+  { id: 'error', label: 'ERR' },
+  { id: 'input', label: 'IN' },
+  { id: 'motion', label: 'MOT' }
+];
+
+export const LOG_EXPORT_FORMATS: { id: LogExportFormat; extension: string; mime: string }[] = [
+  { id: 'json', extension: 'json', mime: 'application/json' },
+  { id: 'ndjson', extension: 'ndjson', mime: 'application/x-ndjson' },
+  { id: 'text', extension: 'txt', mime: 'text/plain' }
+];
+
+export interface LogQuery {
+  // Types to show; every type when empty
+  types: ReadonlySet<LogType>;
+  // Case-insensitive substring of the message
+  search: string;
+  pinnedOnly: boolean;
+}
+
+// Literal, case-insensitive search. The `i` flag folds case per character, so match positions stay valid in the
+// original text (lowercasing a copy can change its length, e.g. 'İ').
+const searchPattern = (search: string, flags = '') =>
+  new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), `i${flags}`);
+
+export const matchesQuery = (entry: LogEntry, query: LogQuery) =>
+  (query.types.size === 0 || query.types.has(entry.type)) &&
+  (!query.pinnedOnly || !!entry.pinned) &&
+  (!query.search || searchPattern(query.search).test(entry.message));
+
+export const filterLogs = (entries: LogEntry[], query: LogQuery) =>
+  entries.filter(entry => matchesQuery(entry, query));
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits text around every case-insensitive occurrence of `search`, for highlighting
+export const splitMatches = (text: string, search: string): TextSegment[] => {
+  if (!search) return [{ text, match: false }];
+  const pattern = searchPattern(search, 'g');
+  const segments: TextSegment[] = [];
+  let from = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match.index > from) segments.push({ text: text.slice(from, match.index), match: false });
+    segments.push({ text: match[0], match: true });
+    from = match.index + match[0].length;
+  }
+  if (from < text.length) segments.push({ text: text.slice(from), match: false });
+  return segments;
+};
+
+const exportRecord = ({ time, type, message, pinned, snapshotId }: LogEntry) => ({
+  time: new Date(time).toISOString(),
+  type,
+  message,
+  ...(pinned ? { pinned } : {}),
+  ...(snapshotId ? { snapshotId } : {})
+});
+
+export const serializeLogs = (entries: LogEntry[], format: LogExportFormat) => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(entries.map(exportRecord), null, 2);
+    case 'ndjson':
+      return entries.map(e => JSON.stringify(exportRecord(e))).join('\n') + (entries.length ? '\n' : '');
+    case 'text':
+      return entries
+        .map(e => `${new Date(e.time).toISOString()} ${e.type.toUpperCase()}${e.pinned ? ' *' : ''} ${e.message}`)
+        .join('\n');
+  }
+};
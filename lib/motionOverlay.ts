@@ -0,0 +1,56 @@
+import type { MotionRegion, MotionZone, NormalizedRect, ZoneKind } from './motionRegions';
+
+const ZONE_COLORS: Record<ZoneKind, { stroke: string; fill: string }> = {
+  include: { stroke: 'rgba(0, 255, 70, 0.8)', fill: 'rgba(0, 255, 70, 0.06)' },
+  exclude: { stroke: 'rgba(255, 60, 60, 0.8)', fill: 'rgba(255, 60, 60, 0.12)' }
+};
+
+const strokeZone = (ctx: CanvasRenderingContext2D, rect: NormalizedRect, kind: ZoneKind, label?: string) => {
+  const { width, height } = ctx.canvas;
+  const x = rect.x * width, y = rect.y * height, w = rect.w * width, h = rect.h * height;
+  ctx.fillStyle = ZONE_COLORS[kind].fill;
+  ctx.fillRect(x, y, w, h);
+  ctx.strokeStyle = ZONE_COLORS[kind].stroke;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeRect(x + 0.5, y + 0.5, w, h);
+  ctx.setLineDash([]);
+  if (label) {
+    ctx.fillStyle = ZONE_COLORS[kind].stroke;
+    ctx.fillText(label, x + 4, y + 4);
+  }
+};
+
+// Zones (dashed, normalized to the canvas), tracked regions (solid boxes in cell units) and an optional zone being drawn
+export const drawMotionOverlay = (
+  ctx: CanvasRenderingContext2D,
+  regions: MotionRegion[],
+  zones: MotionZone[],
+  cellSize: number,
+  draft?: { kind: ZoneKind; rect: NormalizedRect } | null
+) => {
+  if (!regions.length && !zones.length && !draft) return;
+  ctx.save();
+  ctx.font = `bold 10px 'Fira Code', monospace`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.lineWidth = 1;
+
+  for (const zone of zones) strokeZone(ctx, zone.rect, zone.kind, zone.name);
+  if (draft) strokeZone(ctx, draft.rect, draft.kind);
+
+  for (const region of regions) {
+    const x = region.x * cellSize, y = region.y * cellSize;
+    const w = region.w * cellSize, h = region.h * cellSize;
+    ctx.strokeStyle = region.confirmed ? 'rgba(0, 255, 255, 0.9)' : 'rgba(0, 255, 255, 0.35)';
+    ctx.strokeRect(x + 0.5, y + 0.5, w, h);
+    if (region.confirmed) {
+      const label = `T${region.id} ${Math.round(region.intensity * 100)}`;
+      const textWidth = ctx.measureText(label).width;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+      ctx.fillRect(x, y - 13, textWidth + 6, 13);
+      ctx.fillStyle = '#00ffff';
+      ctx.fillText(label, x + 3, y - 12);
+    }
+  }
+  ctx.restore();
+};
@@ -0,0 +1,295 @@
+// Turns the smoothed motion map into tracked regions and zone enter/leave events.
+// Everything here works in grid cells except zones, which are stored normalized (0–1) so they survive resizes.
+import type { FlowField } from './opticalFlow';
+
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export type ZoneKind = 'include' | 'exclude';
+
+export interface MotionZone {
+  id: string;
+  name: string;
+  // include: watched, generates enter/leave events. exclude: motion inside is ignored entirely.
+  kind: ZoneKind;
+  rect: NormalizedRect;
+}
+
+export interface MotionRegion {
+  // Stable across frames while the tracker keeps matching the region
+  id: number;
+  // Bounding box in cells, inclusive-exclusive
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  cx: number;
+  cy: number;
+  cells: number;
+  // Mean motionHistory over the region's cells
+  intensity: number;
+  // Mean optical flow over the region's cells, cells per analyzed frame; 0 without a flow field
+  vx: number;
+  vy: number;
+  // Frames matched so far; events start once a track is confirmed
+  hits: number;
+  confirmed: boolean;
+}
+
+export interface ZoneEvent {
+  type: 'enter' | 'leave';
+  zone: MotionZone;
+  region: MotionRegion;
+}
+
+export interface MotionDetectOptions {
+  threshold: number;
+  minCells: number;
+}
+
+export interface MotionUpdate {
+  regions: MotionRegion[];
+  events: ZoneEvent[];
+}
+
+export interface MotionMonitor {
+  update: (
+    motionHistory: Float32Array,
+    cols: number,
+    rows: number,
+    zones: MotionZone[],
+    options: MotionDetectOptions,
+    flow?: FlowField
+  ) => MotionUpdate;
+  reset: () => void;
+}
+
+type MotionBlob = Omit<MotionRegion, 'id' | 'hits' | 'confirmed'>;
+
+// Frames a track must be matched before it is drawn as confirmed and may raise events
+const CONFIRM_HITS = 3;
+// Frames a track survives without a match (covers brief pauses and occlusions)
+const MAX_MISSES = 8;
+// Centroid distance, in cells, beyond which a blob is never matched to a track
+const MIN_MATCH_DISTANCE = 6;
+
+export const normalizeRect = (x0: number, y0: number, x1: number, y1: number): NormalizedRect => ({
+  x: Math.max(0, Math.min(x0, x1)),
+  y: Math.max(0, Math.min(y0, y1)),
+  w: Math.min(1, Math.max(x0, x1)) - Math.max(0, Math.min(x0, x1)),
+  h: Math.min(1, Math.max(y0, y1)) - Math.max(0, Math.min(y0, y1))
+});
+
+// Region bounding box as a rect normalized to a width × height surface, grown by `pad` cells on each side
+export const regionToRect = (region: MotionRegion, cellSize: number, width: number, height: number, pad = 2): NormalizedRect =>
+  normalizeRect(
+    ((region.x - pad) * cellSize) / width,
+    ((region.y - pad) * cellSize) / height,
+    ((region.x + region.w + pad) * cellSize) / width,
+    ((region.y + region.h + pad) * cellSize) / height
+  );
+
+const rectContains = (r: NormalizedRect, x: number, y: number) =>
+  x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + r.h;
+
+// 8-connected components of cells above threshold; cells under an exclusion mask are skipped
+export const findMotionBlobs = (
+  motionHistory: Float32Array,
+  cols: number,
+  rows: number,
+  options: MotionDetectOptions,
+  excluded?: Uint8Array,
+  scratch?: { labels: Int32Array; stack: Int32Array },
+  flow?: FlowField
+): MotionBlob[] => {
+  const numCells = cols * rows;
+  const labels = scratch?.labels.length === numCells ? scratch.labels : new Int32Array(numCells);
+  const stack = scratch?.stack.length === numCells ? scratch.stack : new Int32Array(numCells);
+  labels.fill(0);
+
+  const blobs: MotionBlob[] = [];
+  let label = 0;
+  for (let start = 0; start < numCells; start++) {
+    if (labels[start] || motionHistory[start] < options.threshold || excluded?.[start]) continue;
+    label++;
+    labels[start] = label;
+    let top = 0;
+    stack[top++] = start;
+    let minX = cols, minY = rows, maxX = 0, maxY = 0;
+    let cells = 0, sumX = 0, sumY = 0, sumMotion = 0, sumVx = 0, sumVy = 0;
+
+    while (top > 0) {
+      const i = stack[--top];
+      const r = (i / cols) | 0;
+      const c = i - r * cols;
+      cells++;
+      sumX += c;
+      sumY += r;
+      sumMotion += motionHistory[i];
+      if (flow) {
+        sumVx += flow.flowX[i];
+        sumVy += flow.flowY[i];
+      }
+      if (c < minX) minX = c;
+      if (c > maxX) maxX = c;
+      if (r < minY) minY = r;
+      if (r > maxY) maxY = r;
+
+      for (let dr = -1; dr <= 1; dr++) {
+        const nr = r + dr;
+        if (nr < 0 || nr >= rows) continue;
+        for (let dc = -1; dc <= 1; dc++) {
+          const nc = c + dc;
+          if (nc < 0 || nc >= cols) continue;
+          const j = nr * cols + nc;
+          if (!labels[j] && motionHistory[j] >= options.threshold && !excluded?.[j]) {
+            labels[j] = label;
+            stack[top++] = j;
+          }
+        }
+      }
+    }
+
+    if (cells >= options.minCells) {
+      blobs.push({
+        x: minX,
+        y: minY,
+        w: maxX - minX + 1,
+        h: maxY - minY + 1,
+        cx: sumX / cells,
+        cy: sumY / cells,
+        cells,
+        intensity: sumMotion / cells,
+        vx: sumVx / cells,
+        vy: sumVy / cells
+      });
+    }
+  }
+  return blobs;
+};
+
+export const buildExclusionMask = (zones: MotionZone[], cols: number, rows: number): Uint8Array | undefined => {
+  const excludes = zones.filter(z => z.kind === 'exclude');
+  if (!excludes.length) return undefined;
+  const mask = new Uint8Array(cols * rows);
+  for (const { rect } of excludes) {
+    const x0 = Math.floor(rect.x * cols), x1 = Math.ceil((rect.x + rect.w) * cols);
+    const y0 = Math.floor(rect.y * rows), y1 = Math.ceil((rect.y + rect.h) * rows);
+    for (let r = Math.max(0, y0); r < Math.min(rows, y1); r++) {
+      mask.fill(1, r * cols + Math.max(0, x0), r * cols + Math.min(cols, x1));
+    }
+  }
+  return mask;
+};
+
+interface Track {
+  region: MotionRegion;
+  misses: number;
+  // Inclusion zones the centroid is currently inside
+  zones: Set<string>;
+}
+
+export const createMotionMonitor = (): MotionMonitor => {
+  let tracks: Track[] = [];
+  let nextId = 1;
+  let scratch = { labels: new Int32Array(0), stack: new Int32Array(0) };
+  // Exclusion mask, rebuilt when the grid size or the zone list changes
+  let maskFor: { cols: number; rows: number; zones: MotionZone[] } | null = null;
+  let mask: Uint8Array | undefined;
+
+  const update = (
+    motionHistory: Float32Array,
+    cols: number,
+    rows: number,
+    zones: MotionZone[],
+    options: MotionDetectOptions,
+    flow?: FlowField
+  ): MotionUpdate => {
+    const numCells = cols * rows;
+    if (scratch.labels.length !== numCells) {
+      scratch = { labels: new Int32Array(numCells), stack: new Int32Array(numCells) };
+    }
+    if (!maskFor || maskFor.cols !== cols || maskFor.rows !== rows || maskFor.zones !== zones) {
+      maskFor = { cols, rows, zones };
+      mask = buildExclusionMask(zones, cols, rows);
+    }
+
+    const blobs = findMotionBlobs(motionHistory, cols, rows, options, mask, scratch, flow);
+
+    // Greedy nearest-centroid matching, closest pairs first
+    const pairs: { t: number; b: number; d: number }[] = [];
+    tracks.forEach((track, t) => {
+      const reach = Math.max(MIN_MATCH_DISTANCE, Math.hypot(track.region.w, track.region.h) / 2);
+      blobs.forEach((blob, b) => {
+        const d = Math.hypot(blob.cx - track.region.cx, blob.cy - track.region.cy);
+        if (d <= reach) pairs.push({ t, b, d });
+      });
+    });
+    pairs.sort((a, b) => a.d - b.d);
+
+    const matchedTracks = new Set<number>();
+    const matchedBlobs = new Set<number>();
+    for (const { t, b } of pairs) {
+      if (matchedTracks.has(t) || matchedBlobs.has(b)) continue;
+      matchedTracks.add(t);
+      matchedBlobs.add(b);
+      const track = tracks[t];
+      const hits = track.region.hits + 1;
+      track.region = { ...blobs[b], id: track.region.id, hits, confirmed: track.region.confirmed || hits >= CONFIRM_HITS };
+      track.misses = 0;
+    }
+
+    const events: ZoneEvent[] = [];
+    const includes = zones.filter(z => z.kind === 'include');
+
+    const survivors: Track[] = [];
+    tracks.forEach((track, t) => {
+      if (!matchedTracks.has(t) && ++track.misses > MAX_MISSES) {
+        // Lost tracks leave every zone they were in
+        for (const zoneId of track.zones) {
+          const zone = zones.find(z => z.id === zoneId);
+          if (zone) events.push({ type: 'leave', zone, region: track.region });
+        }
+        return;
+      }
+      survivors.push(track);
+    });
+    tracks = survivors;
+
+    blobs.forEach((blob, b) => {
+      if (matchedBlobs.has(b)) return;
+      tracks.push({ region: { ...blob, id: nextId++, hits: 1, confirmed: false }, misses: 0, zones: new Set() });
+    });
+
+    for (const track of tracks) {
+      if (!track.region.confirmed || track.misses > 0) continue;
+      const nx = (track.region.cx + 0.5) / cols;
+      const ny = (track.region.cy + 0.5) / rows;
+      for (const zone of includes) {
+        const inside = rectContains(zone.rect, nx, ny);
+        if (inside && !track.zones.has(zone.id)) {
+          track.zones.add(zone.id);
+          events.push({ type: 'enter', zone, region: track.region });
+        } else if (!inside && track.zones.has(zone.id)) {
+          track.zones.delete(zone.id);
+          events.push({ type: 'leave', zone, region: track.region });
+        }
+      }
+      // Zones deleted by the user drop out silently
+      for (const zoneId of track.zones) {
+        if (!includes.some(z => z.id === zoneId)) track.zones.delete(zoneId);
+      }
+    }
+
+    return { regions: tracks.filter(t => t.misses === 0).map(t => t.region), events };
+  };
+
+  return {
+    update,
+    reset: () => { tracks = []; }
+  };
+};
@@ -0,0 +1,206 @@
+// Lucas–Kanade optical flow on the analysis grid. Each cell solves for the displacement that best explains the
+// luma change between two frames over a small window around it; windows without enough texture stay at zero.
+// A consensus median of the field estimates the global motion (camera shake or panning).
+
+// Flow between the previous and the current analyzed frame, in cells per analyzed frame, +x right and +y down.
+// FrameAnalysis is a FlowField, so any analysis can be handed to code that only needs the flow.
+export interface FlowField {
+  cols: number;
+  rows: number;
+  // Per-cell displacement, with the compensated share of the global flow already removed
+  flowX: Float32Array;
+  flowY: Float32Array;
+  // Whole-scene displacement; zero unless most textured cells agree on it
+  globalFlowX: number;
+  globalFlowY: number;
+}
+
+export interface FlowScratch {
+  // Windowed products of the gradients: Ix², Iy², IxIy, IxIt, IyIt
+  products: Float32Array[];
+  temp: Float32Array;
+  samplesX: Float32Array;
+  samplesY: Float32Array;
+}
+
+// Window of (2r + 1)² cells each cell's flow is solved over
+const WINDOW_RADIUS = 2;
+// Smallest eigenvalue of the gradient matrix a window needs; below it the aperture problem makes flow unreliable
+const MIN_EIGEN = 0.002;
+// One linearized step cannot follow displacements much larger than this, in cells
+const MAX_FLOW = 3;
+// Share of cells that must be textured, and share of those within CONSENSUS cells of the median, to trust global flow
+const MIN_TEXTURED = 0.05;
+const MIN_AGREEMENT = 0.5;
+const CONSENSUS = 0.5;
+
+// Screen directions in 45° steps, clockwise from right (y grows downwards)
+const ARROWS = ['→', '↘', '↓', '↙', '←', '↖', '↑', '↗'];
+const HEADINGS = ['right', 'down-right', 'down', 'down-left', 'left', 'up-left', 'up', 'up-right'];
+
+export const createFlowScratch = (): FlowScratch => ({
+  products: [],
+  temp: new Float32Array(0),
+  samplesX: new Float32Array(0),
+  samplesY: new Float32Array(0)
+});
+
+export const flowSpeed = (x: number, y: number) => Math.sqrt(x * x + y * y);
+
+// Nearest of the eight screen directions, 0 = right, counting clockwise
+export const flowDirection = (x: number, y: number) => {
+  const angle = Math.atan2(y, x);
+  return (Math.round(angle / (Math.PI / 4)) + 8) & 7;
+};
+
+export const flowArrow = (x: number, y: number) => ARROWS[flowDirection(x, y)];
+
+export const flowHeading = (x: number, y: number) => HEADINGS[flowDirection(x, y)];
+
+// Mean flow over the cells of a rect (in cells, clipped to the grid)
+export const meanFlow = (field: FlowField, x: number, y: number, w: number, h: number) => {
+  const x0 = Math.max(0, x), x1 = Math.min(field.cols, x + w);
+  const y0 = Math.max(0, y), y1 = Math.min(field.rows, y + h);
+  let sumX = 0, sumY = 0, count = 0;
+  for (let r = y0; r < y1; r++) {
+    for (let c = x0; c < x1; c++) {
+      const i = r * field.cols + c;
+      sumX += field.flowX[i];
+      sumY += field.flowY[i];
+      count++;
+    }
+  }
+  return count ? { x: sumX / count, y: sumY / count } : { x: 0, y: 0 };
+};
+
+// In-place box sum of radius r, rows then columns; windows are clipped at the borders
+const boxSum = (grid: Float32Array, temp: Float32Array, cols: number, rows: number, r: number) => {
+  for (let row = 0; row < rows; row++) {
+    const base = row * cols;
+    let sum = 0;
+    for (let c = 0; c < Math.min(r, cols); c++) sum += grid[base + c];
+    for (let c = 0; c < cols; c++) {
+      if (c + r < cols) sum += grid[base + c + r];
+      if (c - r - 1 >= 0) sum -= grid[base + c - r - 1];
+      temp[base + c] = sum;
+    }
+  }
+  for (let c = 0; c < cols; c++) {
+    let sum = 0;
+    for (let row = 0; row < Math.min(r, rows); row++) sum += temp[row * cols + c];
+    for (let row = 0; row < rows; row++) {
+      if (row + r < rows) sum += temp[(row + r) * cols + c];
+      if (row - r - 1 >= 0) sum -= temp[(row - r - 1) * cols + c];
+      grid[row * cols + c] = sum;
+    }
+  }
+};
+
+const median = (values: Float32Array) => {
+  values.sort();
+  const mid = values.length >> 1;
+  return values.length & 1 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
+};
+
+// Fills `out` with the flow from `prev` to `cur` and estimates the global flow. `compensation` (0–1) is the share
+// of the global flow subtracted from every cell, so a shaking camera does not read as motion everywhere.
+export const estimateFlow = (
+  prev: Float32Array,
+  cur: Float32Array,
+  out: FlowField,
+  scratch: FlowScratch,
+  compensation: number
+) => {
+  const { cols, rows, flowX, flowY } = out;
+  const numCells = cols * rows;
+  if (scratch.temp.length !== numCells) {
+    scratch.products = Array.from({ length: 5 }, () => new Float32Array(numCells));
+    scratch.temp = new Float32Array(numCells);
+    scratch.samplesX = new Float32Array(numCells);
+    scratch.samplesY = new Float32Array(numCells);
+  }
+  const [xx, yy, xy, xt, yt] = scratch.products;
+
+  // Spatial gradients of the mean of both frames, temporal gradient between them
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      let ix = 0, iy = 0;
+      if (c > 0 && c < cols - 1) ix = (cur[i + 1] + prev[i + 1] - cur[i - 1] - prev[i - 1]) / 4;
+      if (r > 0 && r < rows - 1) iy = (cur[i + cols] + prev[i + cols] - cur[i - cols] - prev[i - cols]) / 4;
+      const it = cur[i] - prev[i];
+      xx[i] = ix * ix;
+      yy[i] = iy * iy;
+      xy[i] = ix * iy;
+      xt[i] = ix * it;
+      yt[i] = iy * it;
+    }
+  }
+  for (const grid of scratch.products) boxSum(grid, scratch.temp, cols, rows, WINDOW_RADIUS);
+
+  let textured = 0;
+  for (let i = 0; i < numCells; i++) {
+    const a = xx[i], b = xy[i], d = yy[i];
+    const half = (a + d) / 2;
+    const minEigen = half - Math.sqrt(((a - d) / 2) ** 2 + b * b);
+    if (minEigen < MIN_EIGEN) {
+      flowX[i] = 0;
+      flowY[i] = 0;
+      continue;
+    }
+    const det = a * d - b * b;
+    let vx = (b * yt[i] - d * xt[i]) / det;
+    let vy = (b * xt[i] - a * yt[i]) / det;
+    const speed = flowSpeed(vx, vy);
+    if (speed > MAX_FLOW) {
+      vx *= MAX_FLOW / speed;
+      vy *= MAX_FLOW / speed;
+    }
+    flowX[i] = vx;
+    flowY[i] = vy;
+    scratch.samplesX[textured] = vx;
+    scratch.samplesY[textured] = vy;
+    textured++;
+  }
+
+  let globalX = 0, globalY = 0;
+  if (textured >= numCells * MIN_TEXTURED) {
+    const mx = median(scratch.samplesX.subarray(0, textured));
+    const my = median(scratch.samplesY.subarray(0, textured));
+    let agreeing = 0;
+    for (let i = 0; i < numCells; i++) {
+      if ((flowX[i] || flowY[i]) && Math.abs(flowX[i] - mx) < CONSENSUS && Math.abs(flowY[i] - my) < CONSENSUS) agreeing++;
+    }
+    if (agreeing >= textured * MIN_AGREEMENT) {
+      globalX = mx;
+      globalY = my;
+    }
+  }
+  out.globalFlowX = globalX;
+  out.globalFlowY = globalY;
+
+  const shiftX = globalX * compensation, shiftY = globalY * compensation;
+  if (shiftX || shiftY) {
+    for (let i = 0; i < numCells; i++) {
+      if (!flowX[i] && !flowY[i]) continue;
+      flowX[i] -= shiftX;
+      flowY[i] -= shiftY;
+    }
+  }
+};
+
+// Resamples `src` displaced by (dx, dy) cells into `out` (bilinear, edges clamped), so that a frame can be
+// compared with its predecessor after the camera moved
+export const shiftGrid = (src: Float32Array, cols: number, rows: number, dx: number, dy: number, out: Float32Array) => {
+  for (let r = 0; r < rows; r++) {
+    const sy = Math.max(0, Math.min(rows - 1, r - dy));
+    const y0 = Math.floor(sy), y1 = Math.min(rows - 1, y0 + 1), fy = sy - y0;
+    for (let c = 0; c < cols; c++) {
+      const sx = Math.max(0, Math.min(cols - 1, c - dx));
+      const x0 = Math.floor(sx), x1 = Math.min(cols - 1, x0 + 1), fx = sx - x0;
+      const top = src[y0 * cols + x0] * (1 - fx) + src[y0 * cols + x1] * fx;
+      const bottom = src[y1 * cols + x0] * (1 - fx) + src[y1 * cols + x1] * fx;
+      out[r * cols + c] = top * (1 - fy) + bottom * fy;
+    }
+  }
+};
@@ -0,0 +1,143 @@
+// Colorizers mapping a cell's final brightness (and its source color) to an RGB glyph color.
+// Each palette has a CPU implementation for the Canvas2D path and a matching GLSL body for the WebGL2 path.
+
+export type PaletteId = 'terminal' | 'ar-sight' | 'amber' | 'thermal';
+
+export interface Palette {
+  id: PaletteId;
+  label: string;
+  // brightness in [0, 1], source color channels in [0, 255]; returns a CSS color
+  colorize: (brightness: number, sr: number, sg: number, sb: number) => string;
+  // Body of `vec3 fn(float brightness, vec3 source)`, source in [0, 1], returns [0, 255]
+  glsl: string;
+}
+
+const clamp255 = (v: number) => Math.max(0, Math.min(255, Math.floor(v)));
+
+const rgb = (r: number, g: number, b: number) => `rgb(${clamp255(r)},${clamp255(g)},${clamp255(b)})`;
+
+// Night-vision substrate: dim green '0's, hot white-green highlights
+const terminal: Palette = {
+  id: 'terminal',
+  label: 'Terminal',
+  colorize: (brightness) => {
+    if (brightness > 0.8) {
+      const white = (brightness - 0.8) * 5;
+      return rgb(200 * white, 255, 200 * white);
+    } else if (brightness > 0.5) {
+      const green = (brightness - 0.5) * 2 * 255;
+      return rgb(green * 0.25, green, green * 0.25);
+    } else if (brightness > 0.25) {
+      const green = brightness * 255;
+      return rgb(green * 0.15, green * 0.85, green * 0.15);
+    }
+    const green = brightness * 180;
+    return rgb(green * 0.1, green, green * 0.1);
+  },
+  glsl: `
+  if (brightness > 0.8) {
+    float white = (brightness - 0.8) * 5.0;
+    return vec3(200.0 * white, 255.0, 200.0 * white);
+  } else if (brightness > 0.5) {
+    float green = (brightness - 0.5) * 2.0 * 255.0;
+    return vec3(green * 0.25, green, green * 0.25);
+  } else if (brightness > 0.25) {
+    float green = brightness * 255.0;
+    return vec3(green * 0.15, green * 0.85, green * 0.15);
+  }
+  float green = brightness * 180.0;
+  return vec3(green * 0.1, green, green * 0.1);`
+};
+
+// Bleach bypass: keep ~40% of the original chroma, S-curve contrast, highlights burn toward white
+const arSight: Palette = {
+  id: 'ar-sight',
+  label: 'AR Sight',
+  colorize: (brightness, sr, sg, sb) => {
+    const r0 = sr / 255, g0 = sg / 255, b0 = sb / 255;
+    const l = r0 * 0.2126 + g0 * 0.7152 + b0 * 0.0722;
+    const gain = 0.4 + brightness * 0.9;
+    const burn = brightness > 0.8 ? (brightness - 0.8) * 3 : 0;
+    const channel = (c: number) => {
+      let v = l + (c - l) * 0.4;
+      v = v * v * (3 - 2 * v);
+      v = Math.min(1, v * gain);
+      return (v + (1 - v) * burn) * 255;
+    };
+    return rgb(channel(r0), channel(g0), channel(b0));
+  },
+  glsl: `
+  float l = dot(source, vec3(0.2126, 0.7152, 0.0722));
+  vec3 v = mix(vec3(l), source, 0.4);
+  v = v * v * (3.0 - 2.0 * v);
+  v = min(vec3(1.0), v * (0.4 + brightness * 0.9));
+  float burn = brightness > 0.8 ? (brightness - 0.8) * 3.0 : 0.0;
+  return (v + (1.0 - v) * burn) * 255.0;`
+};
+
+// P3-style amber phosphor
+const amber: Palette = {
+  id: 'amber',
+  label: 'Amber',
+  colorize: (brightness) => {
+    if (brightness > 0.8) {
+      const white = (brightness - 0.8) * 5;
+      return rgb(255, 176 + 64 * white, 160 * white);
+    }
+    const level = brightness / 0.8;
+    return rgb(255 * level, 176 * level * level, 0);
+  },
+  glsl: `
+  if (brightness > 0.8) {
+    float white = (brightness - 0.8) * 5.0;
+    return vec3(255.0, 176.0 + 64.0 * white, 160.0 * white);
+  }
+  float level = brightness / 0.8;
+  return vec3(255.0 * level, 176.0 * level * level, 0.0);`
+};
+
+// False-color ramp: black → blue → magenta → red → yellow → white
+const THERMAL_STOPS: [number, number, number][] = [
+  [0, 0, 0],
+  [20, 0, 120],
+  [160, 0, 160],
+  [240, 40, 0],
+  [255, 200, 0],
+  [255, 255, 255]
+];
+
+const thermal: Palette = {
+  id: 'thermal',
+  label: 'Thermal',
+  colorize: (brightness) => {
+    const t = Math.max(0, Math.min(1, brightness)) * (THERMAL_STOPS.length - 1);
+    const i = Math.min(THERMAL_STOPS.length - 2, Math.floor(t));
+    const f = t - i;
+    const a = THERMAL_STOPS[i], b = THERMAL_STOPS[i + 1];
+    return rgb(a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f);
+  },
+  glsl: `
+  vec3 stops[${THERMAL_STOPS.length}] = vec3[](${THERMAL_STOPS.map(s => `vec3(${s.map(c => c.toFixed(1)).join(', ')})`).join(', ')});
+  float t = clamp(brightness, 0.0, 1.0) * ${(THERMAL_STOPS.length - 1).toFixed(1)};
+  int i = min(${THERMAL_STOPS.length - 2}, int(floor(t)));
+  return mix(stops[i], stops[i + 1], t - float(i));`
+};
+
+export const PALETTES: Palette[] = [terminal, arSight, amber, thermal];
+
+export const DEFAULT_PALETTE: PaletteId = 'terminal';
+
+export const getPalette = (id: PaletteId): Palette =>
+  PALETTES.find(p => p.id === id) || terminal;
+
+export const isPaletteId = (value: string): value is PaletteId =>
+  PALETTES.some(p => p.id === value);
+
+// GLSL `vec3 colorize(float brightness, vec3 source)` dispatching on the palette index uniform
+export const buildPaletteGLSL = () => {
+  const fns = PALETTES.map((p, i) => `vec3 palette${i}(float brightness, vec3 source) {${p.glsl}\n}`).join('\n\n');
+  const cases = PALETTES.map((_, i) => `  if (u_palette == ${i}) return palette${i}(brightness, source);`).join('\n');
+  return `${fns}\n\nvec3 colorize(float brightness, vec3 source) {\n${cases}\n  return palette0(brightness, source);\n}\n`;
+};
+
+export const paletteIndex = (id: PaletteId) => Math.max(0, PALETTES.findIndex(p => p.id === id));
@@ -0,0 +1,88 @@
+import type { AnalysisTimings } from './frameAnalysis';
+import type { AnalyzerMode } from './frameAnalyzer';
+import type { RendererBackend } from './gridRenderer';
+
+// Weight of the newest sample in the running averages
+const SMOOTHING = 0.1;
+// Longer gaps mean the loop was paused (hidden tab), not slow
+const MAX_FRAME_GAP_MS = 1000;
+
+export interface StageTimings extends AnalysisTimings {
+  // Main-thread drawing: the grid renderer plus overlays. For WebGL this is command submission, not GPU time.
+  draw: number;
+}
+
+export interface PerfStats {
+  fps: number;
+  // Interval between rendered frames, ms
+  frameTime: number;
+  // Main-thread time spent inside one frame, ms
+  work: number;
+  // Completed analyses per second; below fps when the analyzer is skipped or falls behind
+  analysisFps: number;
+  stages: StageTimings;
+}
+
+export interface PerfMonitor {
+  // Once per rendered frame, with the frame's start time and the main-thread time it took
+  frame: (start: number, work: number, draw: number) => void;
+  // Once per newly completed analysis
+  analysis: (timings: AnalysisTimings, now: number) => void;
+  // Running averages; the same object is updated in place
+  stats: () => PerfStats;
+}
+
+const ease = (average: number, sample: number) => average ? average + (sample - average) * SMOOTHING : sample;
+
+export const createPerfMonitor = (): PerfMonitor => {
+  const stats: PerfStats = {
+    fps: 0,
+    frameTime: 0,
+    work: 0,
+    analysisFps: 0,
+    stages: { downsample: 0, luma: 0, edges: 0, flow: 0, motion: 0, draw: 0 }
+  };
+  let lastFrame = 0;
+  let lastAnalysis = 0;
+  let analysisInterval = 0;
+
+  const frame = (start: number, work: number, draw: number) => {
+    const gap = start - lastFrame;
+    lastFrame = start;
+    stats.work = ease(stats.work, work);
+    stats.stages.draw = ease(stats.stages.draw, draw);
+    if (gap <= 0 || gap > MAX_FRAME_GAP_MS) return;
+    stats.frameTime = ease(stats.frameTime, gap);
+    stats.fps = 1000 / stats.frameTime;
+  };
+
+  const analysis = (timings: AnalysisTimings, now: number) => {
+    const { stages } = stats;
+    stages.downsample = ease(stages.downsample, timings.downsample);
+    stages.luma = ease(stages.luma, timings.luma);
+    stages.edges = ease(stages.edges, timings.edges);
+    stages.flow = ease(stages.flow, timings.flow);
+    stages.motion = ease(stages.motion, timings.motion);
+    const gap = now - lastAnalysis;
+    lastAnalysis = now;
+    if (gap <= 0 || gap > MAX_FRAME_GAP_MS) return;
+    analysisInterval = ease(analysisInterval, gap);
+    stats.analysisFps = 1000 / analysisInterval;
+  };
+
+  return { frame, analysis, stats: () => stats };
+};
+
+// What the performance HUD shows: the running averages plus the pipeline's current shape
+export interface PerfReading {
+  stats: PerfStats;
+  cols: number;
+  rows: number;
+  cellSize: number;
+  // Configured cell size; above it while adaptive quality has stepped down
+  baseCellSize: number;
+  qualityLevel: number;
+  analysisEvery: number;
+  analyzer: AnalyzerMode;
+  backend: RendererBackend;
+}
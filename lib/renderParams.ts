@@ -0,0 +1,145 @@
+import type { RainParams } from './digitalRain';
+import type { BackgroundParams } from './backgroundModel';
+import type { LayerParams } from './sceneLayers';
+
+// Live-tunable knobs of the analysis, rain and shading pipeline, plus their UI ranges
+
+// Per-cell shading, applied identically by the Canvas2D path and the WebGL2 shader
+export interface ShadingParams {
+  // Cells at or below this luma stay blank
+  lumaCutoff: number;
+  edgeThreshold: number;
+  motionThreshold: number;
+  // Brightness ripple travelling across columns; 0 disables it
+  shimmer: number;
+  // Brightness the digital rain adds on top of the scene; 0 hides the rain layer
+  rainLevel: number;
+}
+
+// Consumed by analyzeFrame, in the worker or on the main thread
+export interface AnalysisParams extends BackgroundParams {
+  // Hysteresis thresholds on the normalized Sobel magnitude; raised automatically above a calibrated noise floor
+  edgeLow: number;
+  edgeHigh: number;
+  // Weight of the previous motion history per frame; the new frame contributes 1 - motionDecay
+  motionDecay: number;
+  // Scene mean luma auto-exposure steers towards
+  targetMean: number;
+  exposureMin: number;
+  exposureMax: number;
+  // Share (0–1) of the estimated global flow removed from the flow field and the frame difference
+  shakeCompensation: number;
+}
+
+export interface RenderParams extends ShadingParams, AnalysisParams, LayerParams {
+  // Cell size in CSS pixels; sets the grid resolution
+  fontSize: number;
+  rainDensity: number;
+  rainSpeed: number;
+  rainTail: number;
+  rainInteraction: number;
+}
+
+export type RenderParamKey = keyof RenderParams;
+
+export const DEFAULT_RENDER_PARAMS: RenderParams = {
+  fontSize: 8,
+  lumaCutoff: 0.08,
+  edgeThreshold: 0.1,
+  motionThreshold: 0.05,
+  shimmer: 0.1,
+  rainLevel: 0.6,
+  rainDensity: 0.5,
+  rainSpeed: 1,
+  rainTail: 14,
+  rainInteraction: 0.7,
+  edgeLow: 0.1,
+  edgeHigh: 0.2,
+  motionDecay: 0.7,
+  targetMean: 0.45,
+  exposureMin: 0.7,
+  exposureMax: 1.5,
+  shakeCompensation: 1,
+  backgroundRate: 0.01,
+  foregroundSigmas: 3,
+  ghostLevel: 0.12,
+  trailPersistence: 0
+};
+
+export interface RenderParamSpec {
+  key: RenderParamKey;
+  label: string;
+  group: 'Grid' | 'Shading' | 'Rain' | 'Edges' | 'Exposure' | 'Flow' | 'Background';
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const RENDER_PARAM_SPECS: RenderParamSpec[] = [
+  { key: 'fontSize', label: 'Cell size', group: 'Grid', min: 4, max: 32, step: 1 },
+  { key: 'lumaCutoff', label: 'Luma cutoff', group: 'Shading', min: 0, max: 0.5, step: 0.01 },
+  { key: 'edgeThreshold', label: 'Edge threshold', group: 'Shading', min: 0, max: 1, step: 0.01 },
+  { key: 'motionThreshold', label: 'Motion threshold', group: 'Shading', min: 0, max: 0.5, step: 0.01 },
+  { key: 'shimmer', label: 'Shimmer', group: 'Shading', min: 0, max: 0.5, step: 0.01 },
+  { key: 'rainLevel', label: 'Rain level', group: 'Rain', min: 0, max: 1, step: 0.05 },
+  { key: 'rainDensity', label: 'Density', group: 'Rain', min: 0, max: 2, step: 0.05 },
+  { key: 'rainSpeed', label: 'Speed', group: 'Rain', min: 0.2, max: 3, step: 0.05 },
+  { key: 'rainTail', label: 'Tail length', group: 'Rain', min: 2, max: 40, step: 1 },
+  { key: 'rainInteraction', label: 'Scene interaction', group: 'Rain', min: 0, max: 1, step: 0.05 },
+  { key: 'edgeLow', label: 'Edge low', group: 'Edges', min: 0, max: 1, step: 0.01 },
+  { key: 'edgeHigh', label: 'Edge high', group: 'Edges', min: 0, max: 1, step: 0.01 },
+  { key: 'motionDecay', label: 'Motion decay', group: 'Exposure', min: 0, max: 0.99, step: 0.01 },
+  { key: 'targetMean', label: 'Target mean', group: 'Exposure', min: 0.1, max: 0.9, step: 0.01 },
+  { key: 'exposureMin', label: 'Exposure min', group: 'Exposure', min: 0.1, max: 1, step: 0.05 },
+  { key: 'exposureMax', label: 'Exposure max', group: 'Exposure', min: 1, max: 4, step: 0.05 },
+  { key: 'shakeCompensation', label: 'Shake compensation', group: 'Flow', min: 0, max: 1, step: 0.05 },
+  { key: 'backgroundRate', label: 'Learning rate', group: 'Background', min: 0.001, max: 0.1, step: 0.001 },
+  { key: 'foregroundSigmas', label: 'Foreground sigmas', group: 'Background', min: 1, max: 8, step: 0.1 },
+  { key: 'ghostLevel', label: 'Ghost level', group: 'Background', min: 0, max: 0.5, step: 0.01 },
+  { key: 'trailPersistence', label: 'Trail persistence (s)', group: 'Background', min: 0, max: 3, step: 0.05 }
+];
+
+// Clamps every field into its spec range; unknown or malformed fields fall back to defaults.
+// Used on anything read from storage, JSON files or URL hashes.
+export const sanitizeRenderParams = (raw: unknown): RenderParams => {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const params = { ...DEFAULT_RENDER_PARAMS };
+  for (const spec of RENDER_PARAM_SPECS) {
+    const value = Number(source[spec.key]);
+    if (Number.isFinite(value)) params[spec.key] = Math.max(spec.min, Math.min(spec.max, value));
+  }
+  params.fontSize = Math.round(params.fontSize);
+  return params;
+};
+
+export const shadingParams = (p: RenderParams): ShadingParams => ({
+  lumaCutoff: p.lumaCutoff,
+  edgeThreshold: p.edgeThreshold,
+  motionThreshold: p.motionThreshold,
+  shimmer: p.shimmer,
+  rainLevel: p.rainLevel
+});
+
+export const rainParams = (p: RenderParams): RainParams => ({
+  density: p.rainDensity,
+  speed: p.rainSpeed,
+  tail: p.rainTail,
+  interaction: p.rainInteraction
+});
+
+export const analysisParams = (p: RenderParams): AnalysisParams => ({
+  edgeLow: p.edgeLow,
+  edgeHigh: p.edgeHigh,
+  motionDecay: p.motionDecay,
+  targetMean: p.targetMean,
+  exposureMin: p.exposureMin,
+  exposureMax: p.exposureMax,
+  shakeCompensation: p.shakeCompensation,
+  backgroundRate: p.backgroundRate,
+  foregroundSigmas: p.foregroundSigmas
+});
+
+export const layerParams = (p: RenderParams): LayerParams => ({
+  ghostLevel: p.ghostLevel,
+  trailPersistence: p.trailPersistence
+});
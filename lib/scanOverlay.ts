@@ -0,0 +1,44 @@
+import { MapMode } from '../types';
+
+// Duration of the SCANNING sweep before the snapshot is handed to the analyzer
+export const SCAN_SWEEP_MS = 900;
+
+// Audit progress drawn on top of the glyph grid; `elapsed` is ms since the mode was entered
+export const drawScanOverlay = (ctx: CanvasRenderingContext2D, mode: MapMode, elapsed: number) => {
+  if (mode === MapMode.IDLE) return;
+  const { width, height } = ctx.canvas;
+
+  ctx.save();
+  if (mode === MapMode.SCANNING) {
+    // Bright line sweeping top to bottom with a fading wake
+    const progress = Math.min(1, elapsed / SCAN_SWEEP_MS);
+    const y = progress * height;
+    const wake = ctx.createLinearGradient(0, Math.max(0, y - 80), 0, y);
+    wake.addColorStop(0, 'rgba(0, 255, 70, 0)');
+    wake.addColorStop(1, 'rgba(0, 255, 70, 0.25)');
+    ctx.fillStyle = wake;
+    ctx.fillRect(0, Math.max(0, y - 80), width, Math.min(80, y));
+    ctx.fillStyle = 'rgba(180, 255, 190, 0.9)';
+    ctx.fillRect(0, y - 1, width, 2);
+  } else if (mode === MapMode.ANALYZING) {
+    // Pulsing frame while waiting for the model
+    const pulse = 0.35 + 0.35 * Math.sin(elapsed / 180);
+    ctx.strokeStyle = `rgba(0, 255, 70, ${pulse})`;
+    ctx.lineWidth = 3;
+    ctx.strokeRect(6, 6, width - 12, height - 12);
+  }
+
+  const dots = '.'.repeat(1 + Math.floor(elapsed / 300) % 3);
+  const label = mode === MapMode.SCANNING
+    ? `SCANNING SECTOR ${Math.round(Math.min(1, elapsed / SCAN_SWEEP_MS) * 100)}%`
+    : `ANALYZING${dots}`;
+  ctx.font = `bold 14px 'Fira Code', monospace`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  const textWidth = ctx.measureText(label).width;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+  ctx.fillRect(width / 2 - textWidth / 2 - 10, height - 44, textWidth + 20, 26);
+  ctx.fillStyle = '#00ff46';
+  ctx.fillText(label, width / 2, height - 22);
+  ctx.restore();
+};
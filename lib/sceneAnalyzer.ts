@@ -0,0 +1,167 @@
+import type { FrameAnalysis } from './frameAnalysis';
+
+// Deterministic on-device scene report built from the per-cell analysis grids
+
+const REGION_NAMES = ['NW', 'N', 'NE', 'W', 'C', 'E', 'SW', 'S', 'SE'];
+const SIGNATURE_COLS = 16;
+const SIGNATURE_ROWS = 12;
+
+const EDGE_THRESHOLD = 0.1;
+const MOTION_THRESHOLD = 0.03;
+const ACTIVE_MOTION_RATIO = 0.02;
+const DENSE_EDGE_RATIO = 0.18;
+const SPARSE_EDGE_RATIO = 0.04;
+
+export interface RegionStat {
+  name: string;
+  value: number;
+}
+
+export interface SceneReport {
+  brightness: number;
+  contrast: number;
+  // Fraction of cells above the edge threshold, per 3×3 region
+  edgeDensity: RegionStat[];
+  // Fraction of cells with recent motion, per 3×3 region
+  motion: RegionStat[];
+  hotspots: number;
+  // Mean absolute luma difference vs the previous signature in [0, 1], null when there is no baseline
+  sceneChange: number | null;
+  signature: Float32Array;
+}
+
+const regionIndex = (col: number, row: number, cols: number, rows: number) =>
+  Math.min(2, Math.floor(row * 3 / rows)) * 3 + Math.min(2, Math.floor(col * 3 / cols));
+
+// Average-pooled luma thumbnail, resolution independent so audits at different grid sizes compare
+const buildSignature = (frame: FrameAnalysis) => {
+  const { cols, rows, luma } = frame;
+  const sums = new Float32Array(SIGNATURE_COLS * SIGNATURE_ROWS);
+  const counts = new Uint32Array(SIGNATURE_COLS * SIGNATURE_ROWS);
+  for (let r = 0; r < rows; r++) {
+    const sr = Math.min(SIGNATURE_ROWS - 1, Math.floor(r * SIGNATURE_ROWS / rows));
+    for (let c = 0; c < cols; c++) {
+      const sc = Math.min(SIGNATURE_COLS - 1, Math.floor(c * SIGNATURE_COLS / cols));
+      sums[sr * SIGNATURE_COLS + sc] += luma[r * cols + c];
+      counts[sr * SIGNATURE_COLS + sc]++;
+    }
+  }
+  for (let i = 0; i < sums.length; i++) {
+    if (counts[i]) sums[i] /= counts[i];
+  }
+  return sums;
+};
+
+// Connected (4-neighbour) clusters of near-saturated cells, ignoring single-cell specks
+const countHotspots = (frame: FrameAnalysis, threshold: number) => {
+  const { cols, rows, luma } = frame;
+  const visited = new Uint8Array(cols * rows);
+  const stack: number[] = [];
+  let count = 0;
+
+  for (let start = 0; start < luma.length; start++) {
+    if (visited[start] || luma[start] < threshold) continue;
+    let size = 0;
+    stack.push(start);
+    visited[start] = 1;
+    while (stack.length) {
+      const i = stack.pop()!;
+      size++;
+      const c = i % cols;
+      const neighbours = [
+        c > 0 ? i - 1 : -1,
+        c < cols - 1 ? i + 1 : -1,
+        i - cols,
+        i + cols
+      ];
+      for (const n of neighbours) {
+        if (n < 0 || n >= luma.length || visited[n] || luma[n] < threshold) continue;
+        visited[n] = 1;
+        stack.push(n);
+      }
+    }
+    if (size >= 2) count++;
+  }
+  return count;
+};
+
+export const analyzeScene = (frame: FrameAnalysis, previousSignature?: Float32Array | null): SceneReport => {
+  const { cols, rows, luma, edges, motionHistory } = frame;
+  const numCells = cols * rows;
+
+  let sum = 0;
+  let sumSq = 0;
+  const edgeCounts = new Array(9).fill(0);
+  const motionCounts = new Array(9).fill(0);
+  const cellCounts = new Array(9).fill(0);
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      const region = regionIndex(c, r, cols, rows);
+      sum += luma[i];
+      sumSq += luma[i] * luma[i];
+      cellCounts[region]++;
+      if (edges[i] > EDGE_THRESHOLD) edgeCounts[region]++;
+      if (motionHistory[i] > MOTION_THRESHOLD) motionCounts[region]++;
+    }
+  }
+
+  const mean = numCells ? sum / numCells : 0;
+  const stdDev = numCells ? Math.sqrt(Math.max(0, sumSq / numCells - mean * mean)) : 0;
+
+  const signature = buildSignature(frame);
+  let sceneChange: number | null = null;
+  if (previousSignature && previousSignature.length === signature.length) {
+    let diff = 0;
+    for (let i = 0; i < signature.length; i++) diff += Math.abs(signature[i] - previousSignature[i]);
+    sceneChange = diff / signature.length;
+  }
+
+  return {
+    brightness: mean,
+    // RMS contrast, scaled so a half-black/half-white frame reads 1.0
+    contrast: Math.min(1, stdDev * 2),
+    edgeDensity: REGION_NAMES.map((name, i) => ({ name, value: cellCounts[i] ? edgeCounts[i] / cellCounts[i] : 0 })),
+    motion: REGION_NAMES.map((name, i) => ({ name, value: cellCounts[i] ? motionCounts[i] / cellCounts[i] : 0 })),
+    hotspots: countHotspots(frame, Math.min(0.97, Math.max(0.85, mean + 2 * stdDev))),
+    sceneChange,
+    signature
+  };
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const names = (stats: RegionStat[]) => stats.map(s => s.name).join(',');
+
+export const formatSceneReport = (report: SceneReport) => {
+  const contrastLabel = report.contrast > 0.5 ? 'high' : report.contrast > 0.2 ? 'nominal' : 'flat';
+  const dense = report.edgeDensity.filter(s => s.value >= DENSE_EDGE_RATIO);
+  const sparse = report.edgeDensity.filter(s => s.value <= SPARSE_EDGE_RATIO);
+  const moving = report.motion
+    .filter(s => s.value > ACTIVE_MOTION_RATIO)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 3);
+
+  const parts = [
+    `Local heuristic complete. LUM ${pct(report.brightness)} CON ${report.contrast.toFixed(2)} (${contrastLabel}).`,
+    `STRUCT dense:${dense.length ? names(dense) : 'none'} sparse:${sparse.length ? names(sparse) : 'none'}.`,
+    moving.length ? `MOTION ${names(moving)}.` : 'Motion vectors static.',
+    `HOTSPOTS ${report.hotspots}.`,
+    report.sceneChange === null ? 'Baseline recorded.' : `ΔSCENE ${pct(report.sceneChange)} vs last audit.`
+  ];
+  return parts.join(' ');
+};
+
+// Keeps the previous audit's signature so each report carries a scene-change score
+export const createSceneAuditor = () => {
+  let lastSignature: Float32Array | null = null;
+  return {
+    audit: (frame: FrameAnalysis) => {
+      const report = analyzeScene(frame, lastSignature);
+      lastSignature = report.signature;
+      return { report, text: formatSceneReport(report) };
+    },
+    reset: () => { lastSignature = null; }
+  };
+};
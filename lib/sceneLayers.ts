@@ -0,0 +1,83 @@
+// What the grid shows of each analysis: the live scene, the scene with its learned background ghosted out,
+// or the background model itself. Phosphor trails let moving foreground glow on after it has passed.
+import type { FrameAnalysis } from './frameAnalysis';
+
+export type SceneLayer = 'live' | 'ghost' | 'background';
+
+export const SCENE_LAYERS: { id: SceneLayer; label: string }[] = [
+  { id: 'live', label: 'Live' },
+  { id: 'ghost', label: 'Ghost' },
+  { id: 'background', label: 'Background' }
+];
+
+export interface LayerParams {
+  // Luma static scenery is flattened to in ghost mode; at or below the luma cutoff it goes blank
+  ghostLevel: number;
+  // Half-life in seconds of the afterglow foreground leaves behind; 0 disables trails
+  trailPersistence: number;
+}
+
+// Grids that replace the analysis' own in the frame handed to the renderers
+export interface LayerGrids {
+  luma: Float32Array;
+  edges: Float32Array;
+  motion: Float32Array;
+}
+
+export interface SceneCompositor {
+  // Called once per rendered frame; trails fade by `dt` seconds. Returned buffers are reused on the next call.
+  compose: (analysis: FrameAnalysis, layer: SceneLayer, params: LayerParams, dt: number) => LayerGrids;
+  reset: () => void;
+}
+
+// Longest fade applied at once; longer gaps (background tabs) are clamped
+const MAX_DT = 0.1;
+
+export const createSceneCompositor = (): SceneCompositor => {
+  let luma = new Float32Array(0);
+  let edges = new Float32Array(0);
+  let trail = new Float32Array(0);
+  let blank = new Float32Array(0);
+  let trailing = false;
+
+  const reset = () => {
+    trail.fill(0);
+    trailing = false;
+  };
+
+  const compose = (analysis: FrameAnalysis, layer: SceneLayer, params: LayerParams, dt: number): LayerGrids => {
+    const numCells = analysis.cols * analysis.rows;
+    if (trail.length !== numCells) {
+      luma = new Float32Array(numCells);
+      edges = new Float32Array(numCells);
+      trail = new Float32Array(numCells);
+      blank = new Float32Array(numCells);
+      trailing = false;
+    }
+
+    const trails = layer !== 'background' && params.trailPersistence > 0;
+    if (!trails && trailing) reset();
+    if (layer === 'background') return { luma: analysis.background, edges: blank, motion: blank };
+    if (layer === 'live' && !trails) return { luma: analysis.luma, edges: analysis.edges, motion: analysis.motion };
+
+    const ghost = layer === 'ghost';
+    const { ghostLevel } = params;
+    const fade = trails ? Math.pow(0.5, Math.min(dt, MAX_DT) / params.trailPersistence) : 0;
+    for (let i = 0; i < numCells; i++) {
+      const fg = analysis.foreground[i];
+      const l = analysis.luma[i];
+      // Static cells sink to the ghost level, foreground keeps its own brightness
+      let out = ghost ? ghostLevel + (l - ghostLevel) * fg : l;
+      if (ghost) edges[i] = analysis.edges[i] * fg;
+      if (trails) {
+        trail[i] = Math.max(l * fg, trail[i] * fade);
+        out = Math.max(out, trail[i]);
+      }
+      luma[i] = out;
+    }
+    trailing = trails;
+    return { luma, edges: ghost ? edges : analysis.edges, motion: analysis.motion };
+  };
+
+  return { compose, reset };
+};
@@ -0,0 +1,72 @@
+// Synthetic RGBA test patterns. Pure pixel generators, so the analysis pipeline can be exercised without
+// a camera or even a DOM (feed the result straight into analyzeFrame).
+
+export type TestPatternId = 'gradient' | 'bars' | 'checker' | 'orbit';
+
+export const TEST_PATTERNS: { id: TestPatternId; label: string }[] = [
+  { id: 'gradient', label: 'Moving gradient' },
+  { id: 'bars', label: 'Color bars' },
+  { id: 'checker', label: 'Checkerboard' },
+  { id: 'orbit', label: 'Orbiting light' }
+];
+
+// SMPTE-ish 75% bars
+const BARS: [number, number, number][] = [
+  [191, 191, 191],
+  [191, 191, 0],
+  [0, 191, 191],
+  [0, 191, 0],
+  [191, 0, 191],
+  [191, 0, 0],
+  [0, 0, 191]
+];
+
+// `t` is in seconds; returns `out` (allocated when omitted) filled with width × height RGBA pixels
+export const renderTestPattern = (
+  pattern: TestPatternId,
+  width: number,
+  height: number,
+  t: number,
+  out: Uint8ClampedArray = new Uint8ClampedArray(width * height * 4)
+) => {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const ix = (y * width + x) << 2;
+      let r = 0, g = 0, b = 0;
+
+      if (pattern === 'gradient') {
+        // Diagonal luma ramp drifting to the right
+        const v = ((x + y * 0.5) / width + t * 0.1) % 1;
+        r = g = b = v * 255;
+      } else if (pattern === 'bars') {
+        // Bars scroll horizontally, lower third is a luma staircase
+        const shifted = (x + t * 40) % width;
+        if (y < height * 0.67) {
+          [r, g, b] = BARS[Math.floor(shifted / width * BARS.length) % BARS.length];
+        } else {
+          r = g = b = Math.floor(shifted / width * 8) * 255 / 7;
+        }
+      } else if (pattern === 'checker') {
+        // Scrolling checkerboard, strong edges everywhere
+        const size = 32;
+        const cx = Math.floor((x + t * 30) / size);
+        const cy = Math.floor((y + t * 15) / size);
+        r = g = b = (cx + cy) % 2 === 0 ? 230 : 20;
+      } else {
+        // Bright spot orbiting the center on a dim background: motion and a single hotspot
+        const cx = width / 2 + Math.cos(t * 1.5) * width * 0.3;
+        const cy = height / 2 + Math.sin(t * 1.5) * height * 0.3;
+        const d = Math.hypot(x - cx, y - cy);
+        const radius = Math.min(width, height) * 0.08;
+        const v = d < radius ? 255 : Math.max(20, 255 * radius / d * 0.5);
+        r = g = b = v;
+      }
+
+      out[ix] = r;
+      out[ix + 1] = g;
+      out[ix + 2] = b;
+      out[ix + 3] = 255;
+    }
+  }
+  return out;
+};
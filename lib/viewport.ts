@@ -0,0 +1,53 @@
+// Digital zoom and pan: which part of the aspect-fitted source frame the grid samples. The viewport is kept
+// relative to that fit rather than in source or canvas pixels, so it survives resizes and resolution changes.
+import { centerCrop, CropRect } from './frameAnalysis';
+
+export interface Viewport {
+  // 1 shows the whole fitted frame
+  zoom: number;
+  // Center of the visible window, normalized to the fitted frame
+  cx: number;
+  cy: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { zoom: 1, cx: 0.5, cy: 0.5 };
+
+export const MAX_VIEWPORT_ZOOM = 8;
+
+// Keeps the zoom in range and the window inside the frame
+export const clampViewport = (viewport: Viewport): Viewport => {
+  const zoom = Math.max(1, Math.min(MAX_VIEWPORT_ZOOM, viewport.zoom));
+  const half = 0.5 / zoom;
+  return {
+    zoom,
+    cx: Math.max(half, Math.min(1 - half, viewport.cx)),
+    cy: Math.max(half, Math.min(1 - half, viewport.cy))
+  };
+};
+
+export const isZoomed = (viewport: Viewport) => viewport.zoom > 1;
+
+// Multiplies the zoom by `factor`, keeping the point under (x, y) (normalized to the canvas) in place
+export const zoomAround = (viewport: Viewport, factor: number, x: number, y: number): Viewport => {
+  const zoom = Math.max(1, Math.min(MAX_VIEWPORT_ZOOM, viewport.zoom * factor));
+  const fx = viewport.cx + (x - 0.5) / viewport.zoom;
+  const fy = viewport.cy + (y - 0.5) / viewport.zoom;
+  return clampViewport({ zoom, cx: fx - (x - 0.5) / zoom, cy: fy - (y - 0.5) / zoom });
+};
+
+// Drags the picture by (dx, dy), normalized to the canvas: the content follows the pointer
+export const panBy = (viewport: Viewport, dx: number, dy: number): Viewport =>
+  clampViewport({ ...viewport, cx: viewport.cx - dx / viewport.zoom, cy: viewport.cy - dy / viewport.zoom });
+
+// Source rectangle for a cols × rows grid: the aspect-fit center crop, narrowed to the viewport
+export const viewportCrop = (srcWidth: number, srcHeight: number, cols: number, rows: number, viewport: Viewport): CropRect => {
+  const fit = centerCrop(srcWidth, srcHeight, cols, rows);
+  if (!isZoomed(viewport)) return fit;
+  const sw = fit.sw / viewport.zoom, sh = fit.sh / viewport.zoom;
+  return {
+    sx: fit.sx + viewport.cx * fit.sw - sw / 2,
+    sy: fit.sy + viewport.cy * fit.sh - sh / 2,
+    sw,
+    sh
+  };
+};
@@ -0,0 +1,372 @@
+import type { GridFrame, GridRenderer } from './gridRenderer';
+import { buildPaletteGLSL, paletteIndex } from './palettes';
+import { glyphFont, measureGlyphs } from './glyphMetrics';
+import type { GlyphTable } from './glyphSets';
+
+const VERTEX_SHADER = `#version 300 es
+// Single oversized triangle covering the viewport
+void main() {
+  vec2 pos = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(pos * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+// Same shading as cellBrightness in the Canvas2D path; thresholds arrive as uniforms, palettes are compiled in and selected by uniform
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp int;
+
+uniform sampler2D u_luma;
+uniform sampler2D u_edges;
+uniform sampler2D u_motion;
+uniform sampler2D u_pixels;
+uniform sampler2D u_atlas;
+uniform sampler2D u_columnGain;
+uniform bool u_useColumnGain;
+uniform sampler2D u_rain;
+uniform sampler2D u_glyphSeed;
+uniform bool u_useRain;
+uniform float u_rainLevel;
+uniform sampler2D u_orientation;
+uniform int u_glyphCount;
+uniform int u_atlasCols;
+uniform bool u_glyphRamp;
+uniform bool u_directional;
+uniform float u_gain;
+uniform vec2 u_resolution;
+uniform ivec2 u_grid;
+uniform float u_cell;
+uniform float u_phase;
+uniform int u_palette;
+uniform float u_lumaCutoff;
+uniform float u_edgeThreshold;
+uniform float u_motionThreshold;
+uniform float u_shimmer;
+
+out vec4 outColor;
+
+${buildPaletteGLSL()}
+void main() {
+  // Grid origin is top-left, GL origin is bottom-left
+  vec2 p = vec2(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y);
+  ivec2 cell = min(ivec2(floor(p / u_cell)), u_grid - 1);
+
+  float gain = u_gain;
+  if (u_useColumnGain) gain *= texelFetch(u_columnGain, ivec2(cell.x, 0), 0).r;
+  float rain = u_useRain ? texelFetch(u_rain, cell, 0).r * u_rainLevel : 0.0;
+
+  float l = texelFetch(u_luma, cell, 0).r;
+  float edge = 0.0;
+  float brightness;
+  if (l <= u_lumaCutoff) {
+    // Dark voids show the rain alone
+    if (rain < 0.04) {
+      outColor = vec4(0.0, 0.0, 0.0, 1.0);
+      return;
+    }
+    brightness = min(1.0, rain * gain);
+  } else {
+    brightness = l;
+    edge = texelFetch(u_edges, cell, 0).r;
+    if (edge > u_edgeThreshold) {
+      brightness = min(1.0, brightness + edge * 1.5);
+    }
+    float motion = texelFetch(u_motion, cell, 0).r;
+    if (motion > u_motionThreshold) {
+      brightness = min(1.0, brightness + motion * 2.0);
+    }
+    brightness *= sin(float(cell.x) * 0.3 + u_phase) * u_shimmer + (1.0 - u_shimmer);
+    brightness = min(1.0, (brightness + rain) * gain);
+  }
+
+  // Atlas slots follow GlyphTable.chars; same selection as glyphIndex
+  int glyph;
+  if (u_directional && edge > u_edgeThreshold) {
+    glyph = u_glyphCount + int(texelFetch(u_orientation, cell, 0).r * 255.0 + 0.5);
+  } else if (u_glyphRamp) {
+    glyph = min(u_glyphCount - 1, int(floor(brightness * float(u_glyphCount))));
+  } else {
+    int seed = u_useRain ? int(texelFetch(u_glyphSeed, cell, 0).r * 255.0 + 0.5) : int(floor(u_phase * 2.0));
+    glyph = (cell.y * 31 + cell.x * 17 + seed) % u_glyphCount;
+  }
+  int cellPx = int(u_cell);
+  ivec2 local = clamp(ivec2(p) - cell * cellPx, ivec2(0), ivec2(cellPx - 1));
+  ivec2 slot = ivec2(glyph % u_atlasCols, glyph / u_atlasCols) * cellPx;
+  float mask = texelFetch(u_atlas, slot + local, 0).a;
+
+  vec3 source = texelFetch(u_pixels, cell, 0).rgb;
+  outColor = vec4(colorize(brightness, source) / 255.0 * mask, 1.0);
+}
+`;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Shader allocation failed');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGL2RenderingContext) => {
+  const vs = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fs = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!program) throw new Error('Program allocation failed');
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`Program link failed: ${log}`);
+  }
+  return program;
+};
+
+const createTexture = (gl: WebGL2RenderingContext) => {
+  const texture = gl.createTexture();
+  if (!texture) throw new Error('Texture allocation failed');
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+// Slots per atlas row: a near-square grid keeps both sides small (73 glyphs at 64px fit in 576px)
+const atlasColumns = (glyphCount: number) => Math.max(1, Math.ceil(Math.sqrt(glyphCount)));
+
+// Rasterizes the table's glyphs into a grid of slots, one cell each, placed exactly like the Canvas2D path
+const buildGlyphAtlas = (glyphs: GlyphTable, cellSize: number) => {
+  const cols = atlasColumns(glyphs.chars.length);
+  const atlas = document.createElement('canvas');
+  atlas.width = cellSize * cols;
+  atlas.height = cellSize * Math.ceil(glyphs.chars.length / cols);
+  const actx = atlas.getContext('2d');
+  if (actx) {
+    const metrics = measureGlyphs(actx, glyphs.chars, cellSize);
+    actx.fillStyle = '#ffffff';
+    actx.font = glyphFont(cellSize);
+    actx.textBaseline = 'alphabetic';
+    glyphs.chars.forEach((ch, k) => {
+      const m = metrics[k];
+      const x = (k % cols) * cellSize;
+      const y = Math.floor(k / cols) * cellSize;
+      // Clip so a glyph squeezed imperfectly cannot bleed into its neighbour's slot
+      actx.save();
+      actx.beginPath();
+      actx.rect(x, y, cellSize, cellSize);
+      actx.clip();
+      actx.fillText(ch, x + m.dx, y + m.dy, m.maxWidth);
+      actx.restore();
+    });
+  }
+  return atlas;
+};
+
+// Draws the grid in a fragment shader on a private WebGL2 canvas, then composites it onto the visible canvas.
+// Returns null when WebGL2 is not available.
+export const createWebGLRenderer = (): GridRenderer | null => {
+  const glCanvas = document.createElement('canvas');
+  const gl = glCanvas.getContext('webgl2', {
+    alpha: false,
+    antialias: false,
+    depth: false,
+    stencil: false
+  });
+  if (!gl) return null;
+
+  const program = createProgram(gl);
+  const vao = gl.createVertexArray();
+  const lumaTex = createTexture(gl);
+  const edgesTex = createTexture(gl);
+  const motionTex = createTexture(gl);
+  const pixelsTex = createTexture(gl);
+  const atlasTex = createTexture(gl);
+  const columnGainTex = createTexture(gl);
+  const rainTex = createTexture(gl);
+  const glyphSeedTex = createTexture(gl);
+  const orientationTex = createTexture(gl);
+
+  const uniforms = {
+    luma: gl.getUniformLocation(program, 'u_luma'),
+    edges: gl.getUniformLocation(program, 'u_edges'),
+    motion: gl.getUniformLocation(program, 'u_motion'),
+    pixels: gl.getUniformLocation(program, 'u_pixels'),
+    atlas: gl.getUniformLocation(program, 'u_atlas'),
+    columnGain: gl.getUniformLocation(program, 'u_columnGain'),
+    useColumnGain: gl.getUniformLocation(program, 'u_useColumnGain'),
+    rain: gl.getUniformLocation(program, 'u_rain'),
+    glyphSeed: gl.getUniformLocation(program, 'u_glyphSeed'),
+    useRain: gl.getUniformLocation(program, 'u_useRain'),
+    rainLevel: gl.getUniformLocation(program, 'u_rainLevel'),
+    orientation: gl.getUniformLocation(program, 'u_orientation'),
+    glyphCount: gl.getUniformLocation(program, 'u_glyphCount'),
+    atlasCols: gl.getUniformLocation(program, 'u_atlasCols'),
+    glyphRamp: gl.getUniformLocation(program, 'u_glyphRamp'),
+    directional: gl.getUniformLocation(program, 'u_directional'),
+    gain: gl.getUniformLocation(program, 'u_gain'),
+    resolution: gl.getUniformLocation(program, 'u_resolution'),
+    grid: gl.getUniformLocation(program, 'u_grid'),
+    cell: gl.getUniformLocation(program, 'u_cell'),
+    phase: gl.getUniformLocation(program, 'u_phase'),
+    palette: gl.getUniformLocation(program, 'u_palette'),
+    lumaCutoff: gl.getUniformLocation(program, 'u_lumaCutoff'),
+    edgeThreshold: gl.getUniformLocation(program, 'u_edgeThreshold'),
+    motionThreshold: gl.getUniformLocation(program, 'u_motionThreshold'),
+    shimmer: gl.getUniformLocation(program, 'u_shimmer')
+  };
+
+  gl.useProgram(program);
+  gl.uniform1i(uniforms.luma, 0);
+  gl.uniform1i(uniforms.edges, 1);
+  gl.uniform1i(uniforms.motion, 2);
+  gl.uniform1i(uniforms.atlas, 3);
+  gl.uniform1i(uniforms.pixels, 4);
+  gl.uniform1i(uniforms.columnGain, 5);
+  gl.uniform1i(uniforms.rain, 6);
+  gl.uniform1i(uniforms.glyphSeed, 7);
+  gl.uniform1i(uniforms.orientation, 8);
+
+  let disposed = false;
+  let atlasCellSize = 0;
+  let atlasGlyphs: GlyphTable | null = null;
+  let gridCols = 0;
+  let gridRows = 0;
+  // The rain textures are allocated separately: frames may arrive without a rain layer
+  let rainCols = 0;
+  let rainRows = 0;
+
+  const uploadAtlas = (glyphs: GlyphTable, cellSize: number) => {
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, atlasTex);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, buildGlyphAtlas(glyphs, cellSize));
+    atlasGlyphs = glyphs;
+    atlasCellSize = cellSize;
+  };
+
+  // The web font may finish loading after the first atlas was rasterized
+  document.fonts?.ready.then(() => { if (!disposed && atlasGlyphs) uploadAtlas(atlasGlyphs, atlasCellSize); });
+
+  const uploadGrid = (unit: number, texture: WebGLTexture, data: Float32Array, resized: boolean) => {
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    if (resized) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, gridCols, gridRows, 0, gl.RED, gl.FLOAT, data);
+    } else {
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, gridCols, gridRows, gl.RED, gl.FLOAT, data);
+    }
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, frame: GridFrame) => {
+    const { width, height } = ctx.canvas;
+    if (glCanvas.width !== width || glCanvas.height !== height) {
+      glCanvas.width = width;
+      glCanvas.height = height;
+    }
+    if (frame.cellSize !== atlasCellSize || frame.glyphs.key !== atlasGlyphs?.key) uploadAtlas(frame.glyphs, frame.cellSize);
+
+    const resized = frame.cols !== gridCols || frame.rows !== gridRows;
+    gridCols = frame.cols;
+    gridRows = frame.rows;
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    uploadGrid(0, lumaTex, frame.luma, resized);
+    uploadGrid(1, edgesTex, frame.edges, resized);
+    uploadGrid(2, motionTex, frame.motion, resized);
+    gl.activeTexture(gl.TEXTURE8);
+    gl.bindTexture(gl.TEXTURE_2D, orientationTex);
+    if (resized) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, gridCols, gridRows, 0, gl.RED, gl.UNSIGNED_BYTE, frame.orientation);
+    } else {
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, gridCols, gridRows, gl.RED, gl.UNSIGNED_BYTE, frame.orientation);
+    }
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, pixelsTex);
+    if (resized) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gridCols, gridRows, 0, gl.RGBA, gl.UNSIGNED_BYTE, frame.pixels);
+    } else {
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, gridCols, gridRows, gl.RGBA, gl.UNSIGNED_BYTE, frame.pixels);
+    }
+
+    if (frame.columnGain) {
+      gl.activeTexture(gl.TEXTURE5);
+      gl.bindTexture(gl.TEXTURE_2D, columnGainTex);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, frame.columnGain.length, 1, 0, gl.RED, gl.FLOAT, frame.columnGain);
+    }
+
+    const { rain } = frame;
+    if (rain) {
+      const rainResized = rain.cols !== rainCols || rain.rows !== rainRows;
+      rainCols = rain.cols;
+      rainRows = rain.rows;
+      gl.activeTexture(gl.TEXTURE6);
+      gl.bindTexture(gl.TEXTURE_2D, rainTex);
+      if (rainResized) {
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, rainCols, rainRows, 0, gl.RED, gl.FLOAT, rain.intensity);
+      } else {
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, rainCols, rainRows, gl.RED, gl.FLOAT, rain.intensity);
+      }
+      gl.activeTexture(gl.TEXTURE7);
+      gl.bindTexture(gl.TEXTURE_2D, glyphSeedTex);
+      if (rainResized) {
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, rainCols, rainRows, 0, gl.RED, gl.UNSIGNED_BYTE, rain.glyphSeed);
+      } else {
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, rainCols, rainRows, gl.RED, gl.UNSIGNED_BYTE, rain.glyphSeed);
+      }
+    }
+
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(program);
+    gl.uniform2f(uniforms.resolution, width, height);
+    gl.uniform2i(uniforms.grid, gridCols, gridRows);
+    gl.uniform1f(uniforms.cell, frame.cellSize);
+    gl.uniform1f(uniforms.phase, frame.phase);
+    gl.uniform1i(uniforms.palette, paletteIndex(frame.palette));
+    gl.uniform1f(uniforms.lumaCutoff, frame.shading.lumaCutoff);
+    gl.uniform1f(uniforms.edgeThreshold, frame.shading.edgeThreshold);
+    gl.uniform1f(uniforms.motionThreshold, frame.shading.motionThreshold);
+    gl.uniform1f(uniforms.shimmer, frame.shading.shimmer);
+    gl.uniform1f(uniforms.gain, frame.gain);
+    gl.uniform1i(uniforms.useColumnGain, frame.columnGain ? 1 : 0);
+    gl.uniform1i(uniforms.useRain, rain ? 1 : 0);
+    gl.uniform1f(uniforms.rainLevel, frame.shading.rainLevel);
+    gl.uniform1i(uniforms.glyphCount, frame.glyphs.count);
+    gl.uniform1i(uniforms.atlasCols, atlasColumns(frame.glyphs.chars.length));
+    gl.uniform1i(uniforms.glyphRamp, frame.glyphs.mode === 'ramp' ? 1 : 0);
+    gl.uniform1i(uniforms.directional, frame.glyphs.directional ? 1 : 0);
+    gl.bindVertexArray(vao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    ctx.drawImage(glCanvas, 0, 0);
+  };
+
+  const dispose = () => {
+    disposed = true;
+    gl.deleteTexture(lumaTex);
+    gl.deleteTexture(edgesTex);
+    gl.deleteTexture(motionTex);
+    gl.deleteTexture(pixelsTex);
+    gl.deleteTexture(atlasTex);
+    gl.deleteTexture(columnGainTex);
+    gl.deleteTexture(rainTex);
+    gl.deleteTexture(glyphSeedTex);
+    gl.deleteTexture(orientationTex);
+    gl.deleteVertexArray(vao);
+    gl.deleteProgram(program);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  };
+
+  return {
+    backend: 'webgl2',
+    draw,
+    dispose
+  };
+};
@@ -0,0 +1,73 @@
+// Stand-in for an OpenAI-compatible vision server, to try provider selection without a model.
+// Point the "Local (OpenAI-compatible)" provider at http://localhost:8787/v1 (or the port given).
+//
+//   npm run mock:vision [-- --port 8787] [-- --fail]
+//
+// Streams a canned reply as server-sent events when asked to stream, answers with a single completion otherwise,
+// and returns JSON with one box when the request asks for a JSON object. --fail answers every request with 500,
+// to exercise the [LOCAL_OVERRIDE] fallback.
+import { createServer } from 'node:http';
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const port = portIndex >= 0 ? Number(args[portIndex + 1]) : 8787;
+const fail = args.includes('--fail');
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const reply = (body) => {
+  const images = body.messages.flatMap(m => Array.isArray(m.content) ? m.content : []).filter(p => p.type === 'image_url').length;
+  const summary = `MOCK ${body.model}: ${body.messages.length} message(s), ${images} frame(s). Sector nominal.`;
+  if (body.response_format?.type !== 'json_object') return summary;
+  return JSON.stringify({ summary, objects: [{ label: 'mock target', box_2d: [250, 250, 750, 750] }] });
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS).end();
+    return;
+  }
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(404, CORS).end('not found');
+    return;
+  }
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    res.writeHead(400, CORS).end('invalid JSON');
+    return;
+  }
+  console.log(`${new Date().toISOString()} ${body.model} messages=${body.messages?.length} stream=${!!body.stream} json=${body.response_format?.type === 'json_object'}`);
+  if (fail) {
+    res.writeHead(500, CORS).end('mock failure');
+    return;
+  }
+
+  const text = reply(body);
+  if (!body.stream) {
+    res.writeHead(200, { ...CORS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: text } }] }));
+    return;
+  }
+  res.writeHead(200, { ...CORS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for (const piece of text.match(/.{1,12}/gs) ?? []) {
+    res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`);
+    await new Promise(resolve => setTimeout(resolve, 40));
+  }
+  res.end('data: [DONE]\n\n');
+});
+
+server.listen(port, () => console.log(`Mock vision server on http://localhost:${port}/v1${fail ? ' (failing)' : ''}`));
@@ -0,0 +1,114 @@
+import { AudioFeatures, createAudioFeatureExtractor, createAudioFeatures } from '../lib/audioFeatures';
+
+export type MicrophoneErrorKind = 'permission-denied' | 'not-found' | 'busy' | 'unsupported' | 'unknown';
+
+export class MicrophoneError extends Error {
+  readonly kind: MicrophoneErrorKind;
+
+  constructor(kind: MicrophoneErrorKind, message: string) {
+    super(message);
+    this.name = 'MicrophoneError';
+    this.kind = kind;
+  }
+}
+
+export interface AudioInput {
+  readonly label: string;
+  // Pulls the analyser buffers and advances the features; call once per render frame
+  update: (now: number) => AudioFeatures;
+  // Last computed features, for read-only consumers such as level meters
+  latest: () => AudioFeatures;
+  stop: () => void;
+}
+
+const FFT_SIZE = 1024;
+
+const toMicrophoneError = (err: any): MicrophoneError => {
+  const detail = err?.message || err?.name || 'Microphone not available';
+  switch (err?.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new MicrophoneError('permission-denied', detail);
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new MicrophoneError('not-found', detail);
+    case 'NotReadableError':
+    case 'AbortError':
+      return new MicrophoneError('busy', detail);
+    default:
+      return new MicrophoneError('unknown', detail);
+  }
+};
+
+// Must be called from a user gesture: browsers keep an AudioContext created without one suspended
+export const startAudioInput = async (onEnded?: () => void): Promise<AudioInput> => {
+  const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
+  if (!navigator.mediaDevices?.getUserMedia || !AudioContextCtor) {
+    throw new MicrophoneError('unsupported', 'Web Audio or getUserMedia not available');
+  }
+
+  let stream: MediaStream;
+  try {
+    // Raw signal: voice processing would flatten exactly the dynamics we react to
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+    });
+  } catch (err) {
+    throw toMicrophoneError(err);
+  }
+
+  let context: AudioContext | null = null;
+  let sourceNode: MediaStreamAudioSourceNode;
+  let analyser: AnalyserNode;
+  try {
+    context = new AudioContextCtor() as AudioContext;
+    await context.resume().catch(() => {});
+    sourceNode = context.createMediaStreamSource(stream);
+    analyser = context.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    analyser.smoothingTimeConstant = 0.5;
+    sourceNode.connect(analyser);
+  } catch (err) {
+    // The microphone is already open; release it so the browser's recording indicator goes off
+    stream.getTracks().forEach(t => t.stop());
+    context?.close().catch(() => {});
+    throw err;
+  }
+  const audioContext = context;
+
+  const timeDomain = new Float32Array(analyser.fftSize);
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  const extractor = createAudioFeatureExtractor(audioContext.sampleRate, analyser.fftSize);
+  let features = createAudioFeatures();
+  let lastUpdate = 0;
+  let stopped = false;
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    sourceNode.disconnect();
+    stream.getTracks().forEach(t => t.stop());
+    audioContext.close().catch(() => {});
+  };
+
+  stream.getAudioTracks().forEach(track => track.addEventListener('ended', () => {
+    if (stopped) return;
+    stop();
+    onEnded?.();
+  }));
+
+  return {
+    label: stream.getAudioTracks()[0]?.label || 'Microphone',
+    update: (now: number) => {
+      if (stopped) return features;
+      const dt = lastUpdate ? Math.min(0.25, (now - lastUpdate) / 1000) : 1 / 60;
+      lastUpdate = now;
+      analyser.getFloatTimeDomainData(timeDomain);
+      analyser.getByteFrequencyData(spectrum);
+      features = extractor.update(timeDomain, spectrum, dt);
+      return features;
+    },
+    latest: () => features,
+    stop
+  };
+};
@@ -0,0 +1,51 @@
+import { AUDIO_SOURCES, AudioMapping, AudioTarget, AudioTargetKey, DEFAULT_AUDIO_MAPPING } from '../lib/audioMapping';
+
+const STORAGE_KEY = 'sightos.audio';
+
+const sanitizeTarget = (raw: any, fallback: AudioTarget): AudioTarget => ({
+  source: AUDIO_SOURCES.some(s => s.id === raw?.source) ? raw.source : fallback.source,
+  amount: Number.isFinite(raw?.amount) ? Math.max(0, Math.min(1, raw.amount)) : fallback.amount
+});
+
+const load = (): AudioMapping => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_AUDIO_MAPPING;
+    const saved = JSON.parse(raw);
+    return {
+      shimmer: sanitizeTarget(saved.shimmer, DEFAULT_AUDIO_MAPPING.shimmer),
+      rainSpeed: sanitizeTarget(saved.rainSpeed, DEFAULT_AUDIO_MAPPING.rainSpeed),
+      brightness: sanitizeTarget(saved.brightness, DEFAULT_AUDIO_MAPPING.brightness),
+      columns: Number.isFinite(saved.columns) ? Math.max(0, Math.min(1, saved.columns)) : DEFAULT_AUDIO_MAPPING.columns
+    };
+  } catch {
+    return DEFAULT_AUDIO_MAPPING;
+  }
+};
+
+let mapping: AudioMapping = load();
+const listeners = new Set<() => void>();
+
+export const getAudioMapping = () => mapping;
+
+export const subscribeAudioMapping = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const commit = (next: AudioMapping) => {
+  mapping = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Audio mapping not persisted:', err);
+  }
+  listeners.forEach(l => l());
+};
+
+export const updateAudioTarget = (key: AudioTargetKey, patch: Partial<AudioTarget>) =>
+  commit({ ...mapping, [key]: { ...mapping[key], ...patch } });
+
+export const updateAudioColumns = (columns: number) => commit({ ...mapping, columns });
+
+export const resetAudioMapping = () => commit(DEFAULT_AUDIO_MAPPING);
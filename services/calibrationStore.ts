@@ -0,0 +1,48 @@
+import type { CalibrationProfile } from '../lib/calibration';
+
+// Calibration profiles keyed by camera deviceId
+export type CalibrationProfiles = Record<string, CalibrationProfile>;
+
+const STORAGE_KEY = 'sightos.calibration';
+
+const isProfile = (value: any): value is CalibrationProfile =>
+  !!value && ['darkLevel', 'whiteLevel', 'offset', 'gain', 'noiseFloor'].every(k => Number.isFinite(value[k]));
+
+const load = (): CalibrationProfiles => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const saved = JSON.parse(raw) as Record<string, unknown>;
+    return Object.fromEntries(Object.entries(saved).filter(([, p]) => isProfile(p))) as CalibrationProfiles;
+  } catch {
+    return {};
+  }
+};
+
+let profiles: CalibrationProfiles = load();
+const listeners = new Set<() => void>();
+
+export const getCalibrationProfiles = () => profiles;
+
+export const subscribeCalibrationProfiles = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const commit = (next: CalibrationProfiles) => {
+  profiles = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Calibration not persisted:', err);
+  }
+  listeners.forEach(l => l());
+};
+
+export const saveCalibration = (deviceId: string, profile: CalibrationProfile) =>
+  commit({ ...profiles, [deviceId]: profile });
+
+export const clearCalibration = (deviceId: string) => {
+  const { [deviceId]: _removed, ...rest } = profiles;
+  commit(rest);
+};
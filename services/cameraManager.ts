@@ -0,0 +1,139 @@
+// Camera acquisition: exact device selection, resolution / frame-rate constraints, remembered preferences
+// and typed errors so the UI can tell "permission denied" from "unplugged" from "in use elsewhere".
+
+export type ResolutionPreset = 'auto' | '480p' | '720p' | '1080p' | '2160p';
+
+export const RESOLUTIONS: { id: ResolutionPreset; label: string; width?: number; height?: number }[] = [
+  { id: 'auto', label: 'Auto' },
+  { id: '480p', label: '480p', width: 640, height: 480 },
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '2160p', label: '4K', width: 3840, height: 2160 }
+];
+
+// 0 means "let the browser pick"
+export const FRAME_RATES = [0, 15, 24, 30, 60];
+
+export interface CameraPreferences {
+  deviceId?: string;
+  resolution: ResolutionPreset;
+  frameRate: number;
+}
+
+export type CameraErrorKind = 'permission-denied' | 'not-found' | 'busy' | 'unsupported' | 'unknown';
+
+export class CameraError extends Error {
+  readonly kind: CameraErrorKind;
+
+  constructor(kind: CameraErrorKind, message: string) {
+    super(message);
+    this.name = 'CameraError';
+    this.kind = kind;
+  }
+}
+
+const STORAGE_KEY = 'sightos.camera';
+
+const DEFAULT_PREFERENCES: CameraPreferences = { resolution: 'auto', frameRate: 0 };
+
+export const loadCameraPreferences = (): CameraPreferences => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_PREFERENCES, ...JSON.parse(raw) } : { ...DEFAULT_PREFERENCES };
+  } catch {
+    return { ...DEFAULT_PREFERENCES };
+  }
+};
+
+export const saveCameraPreferences = (prefs: CameraPreferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch (err) {
+    console.warn('Camera preferences not persisted:', err);
+  }
+};
+
+// Maps getUserMedia DOMException names onto the three cases the UI distinguishes
+export const toCameraError = (err: any): CameraError => {
+  if (err instanceof CameraError) return err;
+  const name = err?.name || '';
+  const detail = err?.message || name || 'Camera not available';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return new CameraError('permission-denied', detail);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return new CameraError('not-found', detail);
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return new CameraError('busy', detail);
+    case 'TypeError':
+      return new CameraError('unsupported', detail);
+    default:
+      return new CameraError('unknown', detail);
+  }
+};
+
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+const buildConstraints = (prefs: CameraPreferences): MediaTrackConstraints => {
+  const constraints: MediaTrackConstraints = prefs.deviceId
+    ? { deviceId: { exact: prefs.deviceId } }
+    : { facingMode: 'environment' };
+  const res = RESOLUTIONS.find(r => r.id === prefs.resolution);
+  if (res?.width && res.height) {
+    constraints.width = { ideal: res.width };
+    constraints.height = { ideal: res.height };
+  }
+  if (prefs.frameRate > 0) constraints.frameRate = { ideal: prefs.frameRate };
+  return constraints;
+};
+
+export const requestCameraStream = async (prefs: CameraPreferences): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new CameraError('unsupported', 'getUserMedia is not available (insecure context?)');
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: buildConstraints(prefs) });
+  } catch (err: any) {
+    // Only the facing-mode hint is negotiable; an explicitly chosen device must not be swapped silently
+    if (!prefs.deviceId && err?.name !== 'NotAllowedError') {
+      try {
+        return await navigator.mediaDevices.getUserMedia({ video: true });
+      } catch (fallbackErr) {
+        throw toCameraError(fallbackErr);
+      }
+    }
+    throw toCameraError(err);
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const RECOVERY_DELAYS_MS = [500, 1500, 4000];
+
+// Re-acquires a camera after its track ended: the same device if it is still present, else any camera
+export const recoverCameraStream = async (prefs: CameraPreferences, isCancelled: () => boolean): Promise<MediaStream> => {
+  let lastError: CameraError = new CameraError('not-found', 'Camera disconnected');
+  for (const delay of RECOVERY_DELAYS_MS) {
+    await wait(delay);
+    if (isCancelled()) throw new CameraError('unknown', 'Recovery cancelled');
+    try {
+      const cameras = await listCameras();
+      const stillPresent = prefs.deviceId && cameras.some(c => c.deviceId === prefs.deviceId);
+      return await requestCameraStream(stillPresent ? prefs : { ...prefs, deviceId: undefined });
+    } catch (err) {
+      lastError = toCameraError(err);
+      if (lastError.kind === 'permission-denied') break;
+    }
+  }
+  throw lastError;
+};
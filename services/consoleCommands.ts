@@ -0,0 +1,412 @@
+import { CommandError, ConsoleCommand, createCommandConsole, usageError } from '../lib/commandConsole';
+import { isPaletteId, PALETTES, PaletteId } from '../lib/palettes';
+import { RENDER_PARAM_SPECS, RenderParamKey } from '../lib/renderParams';
+import { GLYPH_SETS, GlyphSetId } from '../lib/glyphSets';
+import { getRenderSettings, resetRenderParams, updateRenderParams } from './renderSettings';
+import { getGlyphSettings, updateGlyphSettings } from './glyphSettings';
+import { RECORDING_KINDS, RecordingKind } from './recorder';
+import { getPerformanceSettings, updatePerformanceSettings } from './performanceSettings';
+import { TARGET_FPS_OPTIONS } from '../lib/adaptiveQuality';
+import type { PerfReading } from '../lib/perfMonitor';
+import { LOG_EXPORT_FORMATS, LogExportFormat } from '../lib/logEntries';
+import type { FrameAnalysis } from '../lib/frameAnalysis';
+import { BACKGROUND_WARMUP } from '../lib/backgroundModel';
+import { FlowField, flowHeading } from '../lib/opticalFlow';
+import { FLOW_DISPLAYS, FlowDisplay } from '../lib/flowOverlay';
+import { updateMotionSettings } from './motionSettings';
+import { SCENE_LAYERS, SceneLayer } from '../lib/sceneLayers';
+import type { AuditSession } from './geminiService';
+import { DEFAULT_VIEWPORT, MAX_VIEWPORT_ZOOM, Viewport } from '../lib/viewport';
+import type { NormalizedRect } from '../lib/motionRegions';
+import { getProvider } from './visionProviders';
+import type { LogEntry, ViewMode } from '../types';
+
+// What the console can do, supplied by the app so commands run the same code paths as the UI
+export interface ConsoleActions {
+  log: (message: string, type?: LogEntry['type']) => void;
+  // Starts a new audit session; `structured` overrides the provider setting
+  audit: (structured?: boolean) => void;
+  // Follow-ups in the current session, optionally about a freshly captured frame
+  ask: (question: string) => Promise<void>;
+  attach: (question?: string) => Promise<void>;
+  session: () => AuditSession | null;
+  endSession: () => void;
+  // Null before the vision layer is mounted
+  viewport: () => Viewport | null;
+  setViewport: (viewport: Viewport) => void;
+  region: () => NormalizedRect | null;
+  auditRegion: () => void;
+  exportRegion: () => void;
+  clearRegion: () => void;
+  snapshot: () => void;
+  setPalette: (palette: PaletteId) => void;
+  cameras: () => MediaDeviceInfo[];
+  useCamera: (deviceId: string) => void;
+  isRecording: () => boolean;
+  startRecording: (kind?: RecordingKind) => void;
+  stopRecording: () => Promise<void>;
+  clearLogs: () => void;
+  exportLogs: (format: LogExportFormat) => void;
+  popout: () => void;
+  broadcast: () => void;
+  setView: (view: ViewMode) => void;
+  setScene: (layer: SceneLayer) => void;
+  freezeBackground: (frozen: boolean) => void;
+  relearnBackground: () => void;
+  // Copy of the latest analysis, or null before the first frame
+  analysis: () => FrameAnalysis | null;
+  flow: () => FlowField | null;
+  performance: () => PerfReading | null;
+}
+
+const PARAM_KEYS = RENDER_PARAM_SPECS.map(s => s.key);
+const LAYER_IDS = SCENE_LAYERS.map(l => l.id);
+const FLOW_IDS = FLOW_DISPLAYS.map(d => d.id);
+const LOG_FORMATS = LOG_EXPORT_FORMATS.map(f => f.id);
+
+const formatParam = (key: RenderParamKey) => {
+  const spec = RENDER_PARAM_SPECS.find(s => s.key === key)!;
+  return `${key} = ${getRenderSettings().params[key]} (${spec.min}..${spec.max})`;
+};
+
+export const createConsoleCommands = (actions: ConsoleActions) => {
+  const { log } = actions;
+
+  const commands: ConsoleCommand[] = [
+    {
+      name: 'help',
+      usage: '[command]',
+      summary: 'List commands, or show the usage of one',
+      complete: (index) => index === 0 ? commands.map(c => c.name) : [],
+      run: ([name]) => {
+        const shown = name ? commands.filter(c => c.name === name.toLowerCase()) : commands;
+        if (!shown.length) throw new CommandError(`unknown command: ${name}`);
+        for (const c of shown) log(`${c.name}${c.usage ? ` ${c.usage}` : ''} - ${c.summary}`);
+      }
+    },
+    {
+      name: 'audit',
+      usage: '[text|json]',
+      summary: 'Audit the current view and start a new session; json asks for labelled boxes',
+      complete: (index) => index === 0 ? ['text', 'json'] : [],
+      run: function ([format]) {
+        if (format && format !== 'text' && format !== 'json') throw usageError(this);
+        actions.audit(format ? format === 'json' : undefined);
+      }
+    },
+    {
+      name: 'ask',
+      usage: '<question>',
+      summary: 'Ask a follow-up question about the audited frame',
+      raw: true,
+      run: async function ([question]) {
+        if (!question) throw usageError(this);
+        if (!actions.session()) throw new CommandError('no audit session (run audit first)');
+        await actions.ask(question);
+      }
+    },
+    {
+      name: 'attach',
+      usage: '[question]',
+      summary: 'Attach the current view to the session and ask about it (default: what changed)',
+      raw: true,
+      run: async ([question]) => {
+        if (!actions.session()) throw new CommandError('no audit session (run audit first)');
+        await actions.attach(question);
+      }
+    },
+    {
+      name: 'session',
+      usage: '[end]',
+      summary: 'Show the audit session, or end it',
+      complete: (index) => index === 0 ? ['end'] : [],
+      run: function ([sub]) {
+        if (sub && sub !== 'end') throw usageError(this);
+        const session = actions.session();
+        if (!session) {
+          if (sub) throw new CommandError('no audit session');
+          log('No audit session. Run audit to start one.');
+        } else if (sub) {
+          actions.endSession();
+        } else {
+          const structured = session.structured ? ', structured' : '';
+          log(`Audit session: ${session.exchanges()} exchange(s) with ${getProvider(session.providerId).label}${structured}.`);
+        }
+      }
+    },
+    {
+      name: 'zoom',
+      usage: `[<1-${MAX_VIEWPORT_ZOOM}> | reset]`,
+      summary: 'Show the digital zoom, or zoom around the center of the view',
+      complete: (index) => index === 0 ? ['reset', '2', '4'] : [],
+      run: function ([value]) {
+        const viewport = actions.viewport();
+        if (!viewport) throw new CommandError('vision layer not ready');
+        if (!value) {
+          log(`Zoom ${viewport.zoom.toFixed(2)}x, centered at ${(viewport.cx * 100).toFixed(0)}%, ${(viewport.cy * 100).toFixed(0)}%.`);
+          return;
+        }
+        if (value === 'reset') {
+          actions.setViewport(DEFAULT_VIEWPORT);
+          return;
+        }
+        const zoom = Number(value);
+        if (!Number.isFinite(zoom) || zoom < 1 || zoom > MAX_VIEWPORT_ZOOM) throw usageError(this);
+        actions.setViewport({ ...viewport, zoom });
+      }
+    },
+    {
+      name: 'region',
+      usage: '[audit|export|clear]',
+      summary: 'Show the selected region, audit it, save it as PNG or clear it',
+      complete: (index) => index === 0 ? ['audit', 'export', 'clear'] : [],
+      run: function ([sub]) {
+        if (sub && sub !== 'audit' && sub !== 'export' && sub !== 'clear') throw usageError(this);
+        const rect = actions.region();
+        if (!rect) {
+          if (sub) throw new CommandError('no region selected');
+          log('No region selected. Use the crop button and drag over the view.');
+          return;
+        }
+        if (sub === 'audit') actions.auditRegion();
+        else if (sub === 'export') actions.exportRegion();
+        else if (sub === 'clear') actions.clearRegion();
+        else {
+          const pct = (v: number) => `${(v * 100).toFixed(0)}%`;
+          log(`Region at ${pct(rect.x)}, ${pct(rect.y)}, ${pct(rect.w)} x ${pct(rect.h)} of the view.`);
+        }
+      }
+    },
+    {
+      name: 'snapshot',
+      summary: 'Save the current frame as PNG',
+      run: () => actions.snapshot()
+    },
+    {
+      name: 'mode',
+      usage: '<palette>',
+      summary: `Switch palette (${PALETTES.map(p => p.id).join(', ')})`,
+      complete: (index) => index === 0 ? PALETTES.map(p => p.id) : [],
+      run: function ([palette]) {
+        if (!palette || !isPaletteId(palette)) throw usageError(this);
+        actions.setPalette(palette);
+        log(`Palette: ${palette}.`);
+      }
+    },
+    {
+      name: 'set',
+      usage: '[<param> [<value>] | reset]',
+      summary: 'Show or change a render parameter',
+      complete: (index) => index === 0 ? [...PARAM_KEYS, 'reset'] : [],
+      run: function ([key, value]) {
+        if (!key) {
+          PARAM_KEYS.forEach(k => log(formatParam(k)));
+          return;
+        }
+        if (key === 'reset') {
+          resetRenderParams();
+          log('Render parameters reset.');
+          return;
+        }
+        const param = PARAM_KEYS.find(k => k.toLowerCase() === key.toLowerCase());
+        if (!param) throw new CommandError(`unknown parameter: ${key}`);
+        if (value === undefined) {
+          log(formatParam(param));
+          return;
+        }
+        const number = Number(value);
+        if (!Number.isFinite(number)) throw usageError(this);
+        updateRenderParams({ [param]: number });
+        // Out-of-range values are clamped by the store
+        log(formatParam(param));
+      }
+    },
+    {
+      name: 'glyphs',
+      usage: '[<set> | directional on|off]',
+      summary: 'Show or switch the glyph set',
+      complete: (index, args) => {
+        if (index === 0) return [...GLYPH_SETS.map(s => s.id), 'directional'];
+        return index === 1 && args[0] === 'directional' ? ['on', 'off'] : [];
+      },
+      run: function ([set, flag]) {
+        if (!set) {
+          const { set: current, directional } = getGlyphSettings();
+          log(`Glyphs: ${current}${directional ? ', directional edges' : ''}.`);
+          return;
+        }
+        if (set === 'directional') {
+          if (flag !== 'on' && flag !== 'off') throw usageError(this);
+          updateGlyphSettings({ directional: flag === 'on' });
+          log(`Directional edges ${flag}.`);
+          return;
+        }
+        if (!GLYPH_SETS.some(s => s.id === set)) throw new CommandError(`unknown glyph set: ${set}`);
+        updateGlyphSettings({ set: set as GlyphSetId });
+        log(`Glyphs: ${set}.`);
+      }
+    },
+    {
+      name: 'cam',
+      usage: 'list | use <n>',
+      summary: 'List cameras or switch to camera n',
+      complete: (index, args) => {
+        if (index === 0) return ['list', 'use'];
+        return index === 1 && args[0] === 'use' ? actions.cameras().map((_, n) => String(n + 1)) : [];
+      },
+      run: function ([sub, n]) {
+        const cameras = actions.cameras();
+        if (sub === 'list') {
+          if (!cameras.length) log('No cameras found.');
+          cameras.forEach((d, k) => log(`${k + 1}: ${d.label || `Camera ${k + 1}`}`));
+          return;
+        }
+        if (sub !== 'use' || !n) throw usageError(this);
+        const device = cameras[Number(n) - 1];
+        if (!device) throw new CommandError(`no camera ${n} (cam list shows ${cameras.length})`);
+        actions.useCamera(device.deviceId);
+        log(`Switching to ${device.label || `Camera ${n}`}...`);
+      }
+    },
+    {
+      name: 'record',
+      usage: `start [${RECORDING_KINDS.map(k => k.id).join('|')}] | stop`,
+      summary: 'Start or stop recording',
+      complete: (index, args) => {
+        if (index === 0) return ['start', 'stop'];
+        return index === 1 && args[0] === 'start' ? RECORDING_KINDS.map(k => k.id) : [];
+      },
+      run: async function ([sub, kind]) {
+        if (sub === 'start') {
+          if (kind && !RECORDING_KINDS.some(k => k.id === kind)) throw usageError(this);
+          if (actions.isRecording()) throw new CommandError('already recording');
+          actions.startRecording(kind as RecordingKind | undefined);
+        } else if (sub === 'stop') {
+          if (!actions.isRecording()) throw new CommandError('not recording');
+          await actions.stopRecording();
+        } else {
+          throw usageError(this);
+        }
+      }
+    },
+    {
+      name: 'clear',
+      summary: 'Clear the log; pinned entries stay',
+      run: () => actions.clearLogs()
+    },
+    {
+      name: 'export',
+      usage: `logs [${LOG_FORMATS.join('|')}]`,
+      summary: 'Download the log',
+      complete: (index) => index === 0 ? ['logs'] : index === 1 ? LOG_FORMATS : [],
+      run: function ([what, format = 'text']) {
+        if (what !== 'logs' || !LOG_FORMATS.includes(format as LogExportFormat)) throw usageError(this);
+        actions.exportLogs(format as LogExportFormat);
+      }
+    },
+    {
+      name: 'perf',
+      usage: `[hud on|off | adaptive on|off | target ${TARGET_FPS_OPTIONS.join('|')}]`,
+      summary: 'Show frame timings, or toggle the HUD and adaptive quality',
+      complete: (index, args) => {
+        if (index === 0) return ['hud', 'adaptive', 'target'];
+        if (index !== 1) return [];
+        return args[0] === 'target' ? TARGET_FPS_OPTIONS.map(String) : ['on', 'off'];
+      },
+      run: function ([sub, value]) {
+        if (!sub) {
+          const reading = actions.performance();
+          if (!reading) throw new CommandError('no frames rendered yet');
+          const { stats } = reading;
+          const { stages } = stats;
+          log(`${stats.fps.toFixed(0)} fps, ${stats.frameTime.toFixed(1)} ms/frame, ${stats.work.toFixed(1)} ms work, ` +
+            `grid ${reading.cols}x${reading.rows} @ ${reading.cellSize}px [${reading.backend}, ${reading.analyzer}].`);
+          log(`downsample ${stages.downsample.toFixed(1)} ms, luma ${stages.luma.toFixed(1)} ms, ` +
+            `edges ${stages.edges.toFixed(1)} ms, flow ${stages.flow.toFixed(1)} ms, motion ${stages.motion.toFixed(1)} ms, draw ${stages.draw.toFixed(1)} ms.`);
+          return;
+        }
+        if (sub === 'target') {
+          const fps = Number(value);
+          if (!TARGET_FPS_OPTIONS.includes(fps)) throw usageError(this);
+          updatePerformanceSettings({ targetFps: fps });
+          log(`Adaptive quality target: ${fps} fps.`);
+          return;
+        }
+        if ((sub !== 'hud' && sub !== 'adaptive') || (value !== 'on' && value !== 'off')) throw usageError(this);
+        updatePerformanceSettings({ [sub]: value === 'on' });
+        const { hud, adaptive } = getPerformanceSettings();
+        log(`HUD ${hud ? 'on' : 'off'}, adaptive quality ${adaptive ? 'on' : 'off'}.`);
+      }
+    },
+    {
+      name: 'view',
+      usage: 'flat | 3d',
+      summary: 'Switch between the flat view and the 3D height field',
+      complete: (index) => index === 0 ? ['flat', '3d'] : [],
+      run: function ([view]) {
+        if (view !== 'flat' && view !== '3d') throw usageError(this);
+        actions.setView(view === '3d' ? 'spatial' : 'flat');
+        log(view === '3d' ? '3D view: drag to orbit, scroll or pinch to zoom.' : 'Flat view.');
+      }
+    },
+    {
+      name: 'bg',
+      usage: `[${LAYER_IDS.join('|')} | freeze | resume | relearn]`,
+      summary: 'Show the background model, switch the scene layer or control learning',
+      complete: (index) => index === 0 ? [...LAYER_IDS, 'freeze', 'resume', 'relearn'] : [],
+      run: function ([sub]) {
+        if (!sub) {
+          const analysis = actions.analysis();
+          if (!analysis) throw new CommandError('no frames analyzed yet');
+          const { backgroundSamples: samples, backgroundFrozen: frozen } = analysis;
+          const state = samples < BACKGROUND_WARMUP ? `learning (${samples}/${BACKGROUND_WARMUP} frames)` : 'ready';
+          log(`Background: ${state}${frozen ? ', frozen' : ''}.`);
+          return;
+        }
+        if (LAYER_IDS.includes(sub as SceneLayer)) {
+          actions.setScene(sub as SceneLayer);
+          log(`Scene layer: ${sub}.`);
+        } else if (sub === 'freeze' || sub === 'resume') {
+          actions.freezeBackground(sub === 'freeze');
+          log(sub === 'freeze' ? 'Background frozen.' : 'Background learning resumed.');
+        } else if (sub === 'relearn') {
+          actions.relearnBackground();
+        } else {
+          throw usageError(this);
+        }
+      }
+    },
+    {
+      name: 'flow',
+      usage: `[${FLOW_IDS.join('|')}]`,
+      summary: 'Show the global flow, or switch how optical flow is drawn',
+      complete: (index) => index === 0 ? FLOW_IDS : [],
+      run: function ([display]) {
+        if (!display) {
+          const field = actions.flow();
+          if (!field) throw new CommandError('no flow yet');
+          const { globalFlowX: x, globalFlowY: y } = field;
+          log(x || y
+            ? `Global flow: ${x.toFixed(2)}, ${y.toFixed(2)} cells/frame (${flowHeading(x, y)}).`
+            : 'Global flow: none.');
+          return;
+        }
+        if (!FLOW_IDS.includes(display as FlowDisplay)) throw usageError(this);
+        updateMotionSettings({ flowDisplay: display as FlowDisplay });
+        log(`Flow display: ${display}.`);
+      }
+    },
+    {
+      name: 'popout',
+      summary: 'Toggle the Picture-in-Picture popout',
+      run: () => actions.popout()
+    },
+    {
+      name: 'broadcast',
+      summary: 'Enter Broadcast mode (Esc or double-tap to leave)',
+      run: () => actions.broadcast()
+    }
+  ];
+
+  return createCommandConsole(commands);
+};
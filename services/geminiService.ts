@@ -1,51 +1,162 @@
-import { GoogleGenAI } from "@google/genai";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const OFFLINE_ANALYSIS_LOGS = [
-  "Local heuristic complete. Structure: Ferro-concrete composite. Integrity: 94%.",
-  "Bio-digital signature not found. Sector clear.",
-  "Visual anomaly detected. Grid alignment corrected by 0.04%.",
-  "Light spectrum analysis: Artificial fluorescence detected.",
-  "Object geometry matches standard database primitives.",
-  "Motion vectors static. No hostile agents tracked.",
-  "Atmospheric density nominal. Sensors calibrated.",
-  "Decryption failed. Surface patterns contain no hidden glyphs."
-];
-
-export const analyzeSector = async (
-  imageBase64: string
-): Promise<string> => {
-  const cleanBase64 = imageBase64.replace(/^data:image\/\w+;base64,/, "");
-
-  const prompt = `
-    You are the tactical AI of a Matrix runner. 
-    Analyze the incoming video feed (spatial mapping).
-    Identify objects, people, or threats in the visual field.
-    Provide a tactical assessment log. 
-    Style: Cyberpunk, machine-code style, cryptic but informative.
-    Max 40 words.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        maxOutputTokens: 150,
-        temperature: 0.7
-      }
-    });
-    
-    return response.text || "Visual analysis inconclusive. Signal lost.";
-  } catch (error) {
-    console.error("Gemini Vision Error:", error);
-    const randomLog = OFFLINE_ANALYSIS_LOGS[Math.floor(Math.random() * OFFLINE_ANALYSIS_LOGS.length)];
-    return `[LOCAL_OVERRIDE] ${randomLog}`;
-  }
-};
\ No newline at end of file
+import {
+  FOLLOW_UP_TEMPLATE,
+  getProvider,
+  ProviderId,
+  renderPrompt,
+  STRUCTURED_OUTPUT_PROMPT,
+  VisionTurn
+} from './visionProviders';
+import { getProviderSettings } from './providerSettings';
+import { createSceneAuditor } from '../lib/sceneAnalyzer';
+import { Detection, parseStructuredReply } from '../lib/detections';
+import type { FrameAnalysis } from '../lib/frameAnalysis';
+import type { NormalizedRect } from '../lib/motionRegions';
+
+// Scene-change scores are measured against the previous audited frame
+const sceneAuditor = createSceneAuditor();
+
+export const LOCAL_OVERRIDE_PREFIX = '[LOCAL_OVERRIDE]';
+
+// A JSON reply with a dozen boxes does not fit the token budget of a 40-word log line
+const STRUCTURED_MIN_TOKENS = 1024;
+
+// A frame handed to the session: what the model sees, plus the sensor grids captured with it
+export interface AuditFrame {
+  // Data URL of the canvas or a crop of it
+  image: string;
+  // Drives the on-device report and the offline fallback
+  analysis: FrameAnalysis | null;
+  // Part of the canvas the image shows; the whole canvas when absent
+  rect?: NormalizedRect;
+}
+
+export interface AuditReply {
+  text: string;
+  // True when the remote model failed and a local fallback produced `text`
+  override: boolean;
+  error?: string;
+  // Structured mode only; null when the reply held no usable JSON
+  detections: Detection[] | null;
+}
+
+export interface SessionOptions {
+  // Overrides the active provider from the settings store
+  providerId?: ProviderId;
+  // Extra text substituted into the prompt template's {{context}} placeholder
+  context?: string;
+  // Overrides the structured-output setting; providers that cannot mark objects always get the plain prompt
+  structured?: boolean;
+}
+
+export interface AskOptions {
+  // Attached to this question; later questions are about it
+  frame?: AuditFrame;
+  // Called with the reply so far each time a piece streams in
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface AuditSession {
+  providerId: ProviderId;
+  structured: boolean;
+  // The frame the conversation is currently about
+  frame: () => AuditFrame;
+  // Completed question/answer pairs
+  exchanges: () => number;
+  // `null` asks the opening audit prompt. One question at a time; a failed question leaves no trace in the history.
+  ask: (question: string | null, options?: AskOptions) => Promise<AuditReply>;
+}
+
+const splitDataUrl = (dataUrl: string) => ({
+  mimeType: dataUrl.match(/^data:(image\/\w+);base64,/)?.[1] || 'image/jpeg',
+  data: dataUrl.replace(/^data:image\/\w+;base64,/, '')
+});
+
+// Keeps the conversation (and every frame attached to it) so follow-up questions have the full context.
+// Settings are read per question, so prompt or token changes apply mid-conversation.
+export const createAuditSession = (initial: AuditFrame, options: SessionOptions = {}): AuditSession => {
+  const providerId = options.providerId || getProviderSettings().active;
+  const structured = (options.structured ?? getProviderSettings().structured) && !!getProvider(providerId).structured;
+  const turns: VisionTurn[] = [];
+  let frame = initial;
+  let attachPending = true;
+  let localReport: string | undefined;
+  let reported = false;
+
+  const report = () => {
+    if (!reported) {
+      localReport = frame.analysis ? sceneAuditor.audit(frame.analysis).text : undefined;
+      reported = true;
+    }
+    return localReport;
+  };
+
+  const prompt = (question: string | null) => {
+    const settings = getProviderSettings();
+    const vars = {
+      maxWords: settings.maxWords,
+      context: options.context,
+      timestamp: new Date().toISOString(),
+      question: question ?? undefined
+    };
+    const text = renderPrompt(question === null ? settings.promptTemplate : FOLLOW_UP_TEMPLATE, vars);
+    return structured ? `${text}\n${renderPrompt(STRUCTURED_OUTPUT_PROMPT, vars)}` : text;
+  };
+
+  const ask = async (question: string | null, { frame: next, onText, signal }: AskOptions = {}): Promise<AuditReply> => {
+    if (next) {
+      frame = next;
+      attachPending = true;
+      reported = false;
+    }
+    const settings = getProviderSettings();
+    const provider = getProvider(providerId);
+    const config = settings.configs[provider.id];
+    const turn: VisionTurn = { role: 'user', text: prompt(question) };
+    if (attachPending) turn.image = splitDataUrl(frame.image);
+    turns.push(turn);
+    const localReport = report();
+
+    let streamed = '';
+    try {
+      const text = await provider.chat({
+        turns: [...turns],
+        config: structured ? { ...config, maxTokens: Math.max(config.maxTokens, STRUCTURED_MIN_TOKENS) } : config,
+        json: structured,
+        localReport,
+        signal,
+        onText: (chunk) => {
+          streamed += chunk;
+          onText?.(streamed);
+        }
+      });
+      turns.push({ role: 'model', text });
+      attachPending = false;
+
+      if (!structured) return { text: text || "Visual analysis inconclusive. Signal lost.", override: false, detections: null };
+      const parsed = parseStructuredReply(text, frame.rect);
+      return {
+        text: parsed?.summary || text || "Visual analysis inconclusive. Signal lost.",
+        override: false,
+        detections: parsed?.detections ?? null
+      };
+    } catch (error: any) {
+      turns.pop();
+      console.error(`${provider.label} Vision Error:`, error);
+      return {
+        text: `${LOCAL_OVERRIDE_PREFIX} ${localReport || 'Sensor grid unavailable. Local heuristic aborted.'}`,
+        override: true,
+        error: error?.message || String(error),
+        detections: null
+      };
+    }
+  };
+
+  return {
+    providerId,
+    structured,
+    frame: () => frame,
+    exchanges: () => turns.length / 2,
+    ask
+  };
+};
@@ -0,0 +1,54 @@
+import {
+  buildGlyphTable,
+  DEFAULT_GLYPH_SETTINGS,
+  GLYPH_SETS,
+  GlyphSettings,
+  GlyphTable,
+  MAX_CUSTOM_GLYPHS
+} from '../lib/glyphSets';
+
+const STORAGE_KEY = 'sightos.glyphs';
+
+const sanitize = (raw: any): GlyphSettings => ({
+  set: GLYPH_SETS.some(s => s.id === raw?.set) ? raw.set : DEFAULT_GLYPH_SETTINGS.set,
+  // Generous bound on the raw text; parseAlphabet trims it to MAX_CUSTOM_GLYPHS unique glyphs
+  custom: typeof raw?.custom === 'string' ? raw.custom.slice(0, MAX_CUSTOM_GLYPHS * 4) : DEFAULT_GLYPH_SETTINGS.custom,
+  customMode: raw?.customMode === 'ramp' ? 'ramp' : 'cycle',
+  directional: typeof raw?.directional === 'boolean' ? raw.directional : DEFAULT_GLYPH_SETTINGS.directional
+});
+
+const load = (): GlyphSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitize(JSON.parse(raw)) : DEFAULT_GLYPH_SETTINGS;
+  } catch {
+    return DEFAULT_GLYPH_SETTINGS;
+  }
+};
+
+let settings: GlyphSettings = load();
+// Rebuilt on change only, so renderers can compare tables by identity
+let table: GlyphTable = buildGlyphTable(settings);
+const listeners = new Set<() => void>();
+
+export const getGlyphSettings = () => settings;
+
+export const getGlyphTable = () => table;
+
+export const subscribeGlyphSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const commit = (next: GlyphSettings) => {
+  settings = next;
+  table = buildGlyphTable(next);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Glyph settings not persisted:', err);
+  }
+  listeners.forEach(l => l());
+};
+
+export const updateGlyphSettings = (patch: Partial<GlyphSettings>) => commit(sanitize({ ...settings, ...patch }));
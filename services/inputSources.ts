@@ -0,0 +1,284 @@
+import { renderTestPattern, TestPatternId, TEST_PATTERNS } from '../lib/testPatterns';
+import type { FrameSource } from '../lib/frameAnalyzer';
+import { decodeGridRecording, gridFrameToPixels, GridRecordingFrame, gridRecordingFrameAt } from '../lib/gridRecording';
+import {
+  CameraPreferences,
+  listCameras,
+  recoverCameraStream,
+  requestCameraStream,
+  ResolutionPreset,
+  toCameraError
+} from './cameraManager';
+
+export type InputSourceSpec =
+  | { kind: 'camera'; deviceId?: string; resolution?: ResolutionPreset; frameRate?: number }
+  | { kind: 'file'; file: File }
+  | { kind: 'image'; file: File }
+  | { kind: 'screen' }
+  | { kind: 'pattern'; pattern: TestPatternId }
+  | { kind: 'recording'; file: File };
+
+export type InputSourceKind = InputSourceSpec['kind'];
+
+export interface InputSource {
+  readonly spec: InputSourceSpec;
+  readonly label: string;
+  // What the analyzer downsamples each frame
+  readonly element: FrameSource;
+  // Present for camera, file and screen sources
+  readonly video?: HTMLVideoElement;
+  width: () => number;
+  height: () => number;
+  isReady: () => boolean;
+  // Advances synthetic sources; called once per render frame with performance.now()
+  tick?: (now: number) => void;
+  // Camera sources: the device actually delivering frames, which may differ from the one requested
+  deviceId?: () => string | undefined;
+  dispose: () => void;
+}
+
+export interface OpenSourceOptions {
+  // Shared <video> element owned by the mapper; video-backed sources attach to it
+  video: HTMLVideoElement;
+  // The source stopped on its own (screen share ended, track lost and not recoverable)
+  onEnded?: (error?: Error) => void;
+  // Camera track lost; a replacement is being negotiated
+  onRecovering?: () => void;
+  // Camera re-acquired after a loss, possibly on a different device
+  onRecovered?: (label: string) => void;
+}
+
+const PATTERN_WIDTH = 640;
+const PATTERN_HEIGHT = 360;
+
+const attachStream = async (video: HTMLVideoElement, stream: MediaStream, onEnded?: () => void) => {
+  video.srcObject = stream;
+  video.loop = false;
+  stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => onEnded?.()));
+  await video.play();
+};
+
+// Only detaches the element if a newer source has not taken it over already
+const stopStream = (video: HTMLVideoElement, stream: MediaStream) => {
+  stream.getTracks().forEach(t => t.stop());
+  if (video.srcObject === stream) video.srcObject = null;
+};
+
+const videoSource = (spec: InputSourceSpec, label: string, video: HTMLVideoElement, cleanup: () => void): InputSource => ({
+  spec,
+  label,
+  element: video,
+  video,
+  width: () => video.videoWidth,
+  height: () => video.videoHeight,
+  isReady: () => video.readyState >= 2,
+  dispose: cleanup
+});
+
+const openCamera = async (
+  spec: Extract<InputSourceSpec, { kind: 'camera' }>,
+  { video, onEnded, onRecovering, onRecovered }: OpenSourceOptions
+): Promise<InputSource> => {
+  const prefs: CameraPreferences = {
+    deviceId: spec.deviceId,
+    resolution: spec.resolution ?? 'auto',
+    frameRate: spec.frameRate ?? 0
+  };
+  let disposed = false;
+  let recovering = false;
+
+  let stream: MediaStream;
+  try {
+    stream = await requestCameraStream(prefs);
+  } catch (err) {
+    // A remembered device that has since been unplugged falls back to the default camera
+    const cameraError = toCameraError(err);
+    const cameras = await listCameras().catch(() => []);
+    if (cameraError.kind !== 'not-found' || !prefs.deviceId || cameras.some(c => c.deviceId === prefs.deviceId)) {
+      throw cameraError;
+    }
+    stream = await requestCameraStream({ ...prefs, deviceId: undefined });
+  }
+
+  const trackLabel = () => stream.getVideoTracks()[0]?.label || 'Camera';
+
+  const handleEnded = async () => {
+    if (disposed || recovering) return;
+    recovering = true;
+    onRecovering?.();
+    try {
+      const next = await recoverCameraStream(prefs, () => disposed);
+      if (disposed) {
+        next.getTracks().forEach(t => t.stop());
+        return;
+      }
+      stopStream(video, stream);
+      stream = next;
+      await attachStream(video, stream, handleEnded);
+      onRecovered?.(trackLabel());
+    } catch (err) {
+      if (!disposed) onEnded?.(toCameraError(err));
+    } finally {
+      recovering = false;
+    }
+  };
+
+  // Most browsers end the track on unplug; this catches the ones that only report a device change
+  const handleDeviceChange = () => {
+    if (stream.getVideoTracks().every(t => t.readyState === 'ended')) handleEnded();
+  };
+
+  try {
+    await attachStream(video, stream, handleEnded);
+  } catch (err) {
+    stream.getTracks().forEach(t => t.stop());
+    throw err;
+  }
+  navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+
+  return {
+    spec,
+    get label() { return trackLabel(); },
+    element: video,
+    video,
+    width: () => video.videoWidth,
+    height: () => video.videoHeight,
+    isReady: () => video.readyState >= 2,
+    deviceId: () => stream.getVideoTracks()[0]?.getSettings().deviceId,
+    dispose: () => {
+      disposed = true;
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+      stopStream(video, stream);
+    }
+  };
+};
+
+const openScreen = async (spec: InputSourceSpec, { video, onEnded }: OpenSourceOptions) => {
+  if (!navigator.mediaDevices?.getDisplayMedia) throw new Error('Screen capture not supported');
+  const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  try {
+    await attachStream(video, stream, onEnded);
+  } catch (err) {
+    stream.getTracks().forEach(t => t.stop());
+    throw err;
+  }
+  return videoSource(spec, stream.getVideoTracks()[0]?.label || 'Screen', video, () => stopStream(video, stream));
+};
+
+const openVideoFile = async (spec: Extract<InputSourceSpec, { kind: 'file' }>, { video }: OpenSourceOptions) => {
+  const url = URL.createObjectURL(spec.file);
+  video.srcObject = null;
+  video.src = url;
+  video.loop = true;
+  try {
+    await video.play();
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw err;
+  }
+  return videoSource(spec, spec.file.name, video, () => {
+    if (video.src === url) {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    }
+    URL.revokeObjectURL(url);
+  });
+};
+
+const openImage = async (spec: Extract<InputSourceSpec, { kind: 'image' }>): Promise<InputSource> => {
+  const url = URL.createObjectURL(spec.file);
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+  } catch {
+    URL.revokeObjectURL(url);
+    throw new Error(`Cannot decode image ${spec.file.name}`);
+  }
+  return {
+    spec,
+    label: spec.file.name,
+    element: image,
+    width: () => image.naturalWidth,
+    height: () => image.naturalHeight,
+    isReady: () => image.complete && image.naturalWidth > 0,
+    dispose: () => URL.revokeObjectURL(url)
+  };
+};
+
+const openPattern = (spec: Extract<InputSourceSpec, { kind: 'pattern' }>): InputSource => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PATTERN_WIDTH;
+  canvas.height = PATTERN_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  const image = ctx?.createImageData(PATTERN_WIDTH, PATTERN_HEIGHT);
+  const origin = performance.now();
+
+  const tick = (now: number) => {
+    if (!ctx || !image) return;
+    renderTestPattern(spec.pattern, PATTERN_WIDTH, PATTERN_HEIGHT, (now - origin) / 1000, image.data);
+    ctx.putImageData(image, 0, 0);
+  };
+  tick(origin);
+
+  return {
+    spec,
+    label: TEST_PATTERNS.find(p => p.id === spec.pattern)?.label || spec.pattern,
+    element: canvas,
+    width: () => PATTERN_WIDTH,
+    height: () => PATTERN_HEIGHT,
+    isReady: () => !!ctx,
+    tick,
+    dispose: () => {}
+  };
+};
+
+// Plays a grid recording back in a loop as a grey image of its brightness grid, one pixel per cell, so the
+// renderer redraws it at the current cell size, glyphs and palette
+const openRecording = async (spec: Extract<InputSourceSpec, { kind: 'recording' }>): Promise<InputSource> => {
+  const { frames } = decodeGridRecording(await spec.file.arrayBuffer());
+  if (!frames.length) throw new Error(`${spec.file.name} has no frames`);
+  const duration = frames[frames.length - 1].t + 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = frames[0].cols;
+  canvas.height = frames[0].rows;
+  const ctx = canvas.getContext('2d');
+  const origin = performance.now();
+  let shown: GridRecordingFrame | null = null;
+
+  const tick = (now: number) => {
+    const frame = gridRecordingFrameAt(frames, (now - origin) % duration) ?? frames[0];
+    if (!ctx || frame === shown) return;
+    shown = frame;
+    // Adaptive quality may have changed the grid mid-recording
+    if (canvas.width !== frame.cols || canvas.height !== frame.rows) {
+      canvas.width = frame.cols;
+      canvas.height = frame.rows;
+    }
+    ctx.putImageData(new ImageData(gridFrameToPixels(frame), frame.cols, frame.rows), 0, 0);
+  };
+  tick(origin);
+
+  return {
+    spec,
+    label: spec.file.name,
+    element: canvas,
+    width: () => canvas.width,
+    height: () => canvas.height,
+    isReady: () => !!ctx,
+    tick,
+    dispose: () => {}
+  };
+};
+
+export const openInputSource = async (spec: InputSourceSpec, options: OpenSourceOptions): Promise<InputSource> => {
+  switch (spec.kind) {
+    case 'camera': return openCamera(spec, options);
+    case 'screen': return openScreen(spec, options);
+    case 'file': return openVideoFile(spec, options);
+    case 'image': return openImage(spec);
+    case 'pattern': return openPattern(spec);
+    case 'recording': return openRecording(spec);
+  }
+};
@@ -0,0 +1,231 @@
+import type { LogEntry } from '../types';
+import { LOG_EXPORT_FORMATS, LogExportFormat, LogType, serializeLogs } from '../lib/logEntries';
+import { dataUrlToBlob, downloadBlob, timestampedFilename } from '../lib/download';
+
+// Past this many entries the oldest unpinned ones are evicted
+export const LOG_CAPACITY = 2000;
+// Pinned entries are never evicted, so their number is capped separately; further pins are refused
+export const PIN_CAPACITY = 200;
+// Audit snapshots kept in IndexedDB; older ones expire even if an entry still links them, unless it is pinned
+export const SNAPSHOT_CAPACITY = 50;
+// Snapshots also held in memory, so the latest audits open without a database read
+const SNAPSHOT_CACHE = 4;
+
+const DB_NAME = 'sightos-logs';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const SNAPSHOT_STORE = 'snapshots';
+
+let entries: LogEntry[] = [];
+const listeners = new Set<() => void>();
+// Stored snapshot ids, oldest first
+let snapshotIds: string[] = [];
+const snapshotCache = new Map<string, Promise<Blob>>();
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+// Cleared when the database cannot be opened (private mode, old browsers); the log then lives in memory only
+let persistent = true;
+
+const database = () => databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+    request.result.createObjectStore(SNAPSHOT_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+}).catch(err => {
+  persistent = false;
+  throw err;
+});
+
+const transact = (mode: IDBTransactionMode, work: (tx: IDBTransaction) => void) =>
+  database().then(db => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([ENTRY_STORE, SNAPSHOT_STORE], mode);
+    work(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+
+const read = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+}).catch(err => {
+  persistent = false;
+  throw err;
+});
+
+// Persistence is best effort: the in-memory log keeps working without it
+const persist = (put: LogEntry[], remove: string[] = [], removeSnapshots: string[] = []) => {
+  if (!persistent || (!put.length && !remove.length && !removeSnapshots.length)) return;
+  transact('readwrite', tx => {
+    const store = tx.objectStore(ENTRY_STORE);
+    put.forEach(entry => store.put(entry));
+    remove.forEach(id => store.delete(id));
+    removeSnapshots.forEach(id => tx.objectStore(SNAPSHOT_STORE).delete(id));
+  }).catch(err => console.warn('Log not persisted:', err));
+};
+
+export const getLogs = () => entries;
+
+export const subscribeLogs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notify = () => listeners.forEach(l => l());
+
+// Snapshots that no entry links any more, plus the oldest past capacity. Those linked from pinned entries or
+// listed in `keep` always stay.
+const expiredSnapshots = (keep: string[] = []) => {
+  const held = new Set([...keep, ...entries.filter(e => e.pinned).map(e => e.snapshotId)]);
+  const linked = new Set(entries.map(e => e.snapshotId));
+  const recent = new Set(snapshotIds.filter(id => linked.has(id) && !held.has(id)).slice(-SNAPSHOT_CAPACITY));
+  const kept = snapshotIds.filter(id => held.has(id) || recent.has(id));
+  const expired = snapshotIds.filter(id => !kept.includes(id));
+  snapshotIds = kept;
+  expired.forEach(id => snapshotCache.delete(id));
+  return expired;
+};
+
+// Drops the oldest unpinned entries past capacity; returns their ids
+const evict = () => {
+  let excess = entries.length - LOG_CAPACITY;
+  if (excess <= 0) return [];
+  const evicted: string[] = [];
+  entries = entries.filter(entry => {
+    if (excess > 0 && !entry.pinned) {
+      excess--;
+      evicted.push(entry.id);
+      return false;
+    }
+    return true;
+  });
+  return evicted;
+};
+
+export const appendLog = (
+  message: string,
+  type: LogType = 'system',
+  link: Pick<LogEntry, 'snapshotId'> = {}
+): LogEntry => {
+  const time = Date.now();
+  const entry: LogEntry = {
+    id: `${time}-${Math.random().toString(36).slice(2, 8)}`,
+    time,
+    timestamp: new Date(time).toLocaleTimeString('en-GB', { hour12: false }),
+    message,
+    type,
+    ...link
+  };
+  entries = [...entries, entry];
+  const evicted = evict();
+  persist([entry], evicted, evicted.length ? expiredSnapshots() : []);
+  notify();
+  return entry;
+};
+
+// Returns false when the pin was refused because PIN_CAPACITY entries are already pinned
+export const setLogPinned = (id: string, pinned: boolean) => {
+  const entry = entries.find(e => e.id === id);
+  if (!entry || !!entry.pinned === pinned) return true;
+  if (pinned && entries.filter(e => e.pinned).length >= PIN_CAPACITY) {
+    appendLog(`Pin refused: ${PIN_CAPACITY} entries already pinned. Unpin one first.`, 'error');
+    return false;
+  }
+  const next = { ...entry, pinned };
+  entries = entries.map(e => e === entry ? next : e);
+  const evicted = evict();
+  persist([next], evicted, evicted.length ? expiredSnapshots() : []);
+  notify();
+  return true;
+};
+
+// Rewrites an entry in place, e.g. while a reply streams into it. Pass `save = false` for intermediate
+// updates and save once at the end; only the saved state is persisted.
+export const updateLog = (id: string, patch: Partial<Pick<LogEntry, 'message' | 'type'>>, save = true) => {
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return;
+  const next = { ...entry, ...patch };
+  entries = entries.map(e => e === entry ? next : e);
+  if (save) persist([next]);
+  notify();
+};
+
+// Pinned entries survive a clear, and so do their snapshots and those in `keepSnapshots` (e.g. the frame an
+// open audit session is about)
+export const clearLogs = (keepSnapshots: string[] = []) => {
+  const removed = entries.filter(e => !e.pinned).map(e => e.id);
+  entries = entries.filter(e => e.pinned);
+  persist([], removed, expiredSnapshots(keepSnapshots));
+  notify();
+};
+
+// Stores a frame (data URL) for audit entries to link via `snapshotId`. Link it from an entry
+// in the same tick: unlinked snapshots are dropped by the next eviction.
+export const storeSnapshot = (dataUrl: string) => {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const blob = Promise.resolve().then(() => dataUrlToBlob(dataUrl));
+  snapshotCache.set(id, blob);
+  for (const old of snapshotCache.keys()) {
+    if (snapshotCache.size <= SNAPSHOT_CACHE) break;
+    snapshotCache.delete(old);
+  }
+  snapshotIds.push(id);
+  blob
+    .then(data => {
+      // Skip snapshots that expired while being decoded
+      if (snapshotIds.includes(id)) return transact('readwrite', tx => tx.objectStore(SNAPSHOT_STORE).put(data, id));
+    })
+    .catch(err => console.warn('Snapshot not persisted:', err));
+  return id;
+};
+
+// Null once the snapshot has expired
+export const loadSnapshot = async (id: string): Promise<Blob | null> => {
+  const cached = snapshotCache.get(id);
+  if (cached) return cached.catch(() => null);
+  if (!snapshotIds.includes(id)) return null;
+  try {
+    const db = await database();
+    const blob = await read(db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).get(id));
+    return blob instanceof Blob ? blob : null;
+  } catch {
+    return null;
+  }
+};
+
+// Downloads the given entries, the whole log by default; returns the file name
+export const downloadLogs = (format: LogExportFormat, selection: LogEntry[] = entries) => {
+  const { extension, mime } = LOG_EXPORT_FORMATS.find(f => f.id === format)!;
+  const filename = timestampedFilename('sightos-logs', extension);
+  downloadBlob(new Blob([serializeLogs(selection, format)], { type: mime }), filename);
+  return filename;
+};
+
+// Restores the previous session, ahead of anything logged while it loads
+const hydrate = async () => {
+  const db = await database();
+  const tx = db.transaction([ENTRY_STORE, SNAPSHOT_STORE]);
+  const [saved, savedSnapshots] = await Promise.all([
+    read(tx.objectStore(ENTRY_STORE).getAll() as IDBRequest<LogEntry[]>),
+    read(tx.objectStore(SNAPSHOT_STORE).getAllKeys())
+  ]);
+  const current = new Set(entries.map(e => e.id));
+  const restored = saved
+    .filter(e => !current.has(e.id) && Number.isFinite(e.time) && typeof e.message === 'string')
+    .sort((a, b) => a.time - b.time);
+  entries = [...restored, ...entries];
+  // Snapshot ids lead with their timestamp, so key order is age order
+  snapshotIds = [...new Set([...savedSnapshots.map(String), ...snapshotIds])];
+  const evicted = evict();
+  persist([], evicted, expiredSnapshots());
+  notify();
+};
+
+hydrate().catch(err => console.warn('Previous log not restored:', err));
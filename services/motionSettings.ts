@@ -0,0 +1,76 @@
+import type { MotionZone } from '../lib/motionRegions';
+import type { FlowDisplay } from '../lib/flowOverlay';
+
+export interface MotionSettings {
+  enabled: boolean;
+  // motionHistory level a cell must reach to count as moving
+  threshold: number;
+  // Smaller components are treated as noise
+  minCells: number;
+  showRegions: boolean;
+  zones: MotionZone[];
+  // Audit the region that entered a watched zone, at most once per cooldown
+  autoAudit: boolean;
+  autoAuditCooldownSec: number;
+  // Optical flow drawn over the view, and the speed (cells per analyzed frame) below which it is hidden
+  flowDisplay: FlowDisplay;
+  flowMinSpeed: number;
+}
+
+const STORAGE_KEY = 'sightos.motion';
+
+const defaults = (): MotionSettings => ({
+  enabled: false,
+  threshold: 0.05,
+  minCells: 6,
+  showRegions: true,
+  zones: [],
+  autoAudit: false,
+  autoAuditCooldownSec: 60,
+  flowDisplay: 'off',
+  flowMinSpeed: 0.25
+});
+
+const load = (): MotionSettings => {
+  const base = defaults();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return base;
+    const saved = JSON.parse(raw) as Partial<MotionSettings>;
+    return { ...base, ...saved, zones: Array.isArray(saved.zones) ? saved.zones : [] };
+  } catch {
+    return base;
+  }
+};
+
+let settings: MotionSettings = load();
+const listeners = new Set<() => void>();
+
+export const getMotionSettings = () => settings;
+
+export const subscribeMotionSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const commit = (next: MotionSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Motion settings not persisted:', err);
+  }
+  listeners.forEach(l => l());
+};
+
+export const updateMotionSettings = (patch: Partial<Omit<MotionSettings, 'zones'>>) =>
+  commit({ ...settings, ...patch });
+
+export const addZone = (zone: Omit<MotionZone, 'id'>) =>
+  commit({ ...settings, zones: [...settings.zones, { ...zone, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` }] });
+
+export const updateZone = (id: string, patch: Partial<Omit<MotionZone, 'id'>>) =>
+  commit({ ...settings, zones: settings.zones.map(z => (z.id === id ? { ...z, ...patch } : z)) });
+
+export const removeZone = (id: string) =>
+  commit({ ...settings, zones: settings.zones.filter(z => z.id !== id) });
@@ -0,0 +1,50 @@
+import { DEFAULT_TARGET_FPS, TARGET_FPS_OPTIONS } from '../lib/adaptiveQuality';
+
+export interface PerformanceSettings {
+  // Overlay with fps, frame time and per-stage timings
+  hud: boolean;
+  // Trade cell size and analysis rate for frame rate when frames run over budget
+  adaptive: boolean;
+  targetFps: number;
+}
+
+const STORAGE_KEY = 'sightos.performance';
+
+export const DEFAULT_PERFORMANCE_SETTINGS: PerformanceSettings = { hud: false, adaptive: false, targetFps: DEFAULT_TARGET_FPS };
+
+const sanitize = (raw: any): PerformanceSettings => ({
+  hud: typeof raw?.hud === 'boolean' ? raw.hud : DEFAULT_PERFORMANCE_SETTINGS.hud,
+  adaptive: typeof raw?.adaptive === 'boolean' ? raw.adaptive : DEFAULT_PERFORMANCE_SETTINGS.adaptive,
+  targetFps: TARGET_FPS_OPTIONS.includes(raw?.targetFps) ? raw.targetFps : DEFAULT_PERFORMANCE_SETTINGS.targetFps
+});
+
+const load = (): PerformanceSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitize(JSON.parse(raw)) : DEFAULT_PERFORMANCE_SETTINGS;
+  } catch {
+    return DEFAULT_PERFORMANCE_SETTINGS;
+  }
+};
+
+let settings: PerformanceSettings = load();
+const listeners = new Set<() => void>();
+
+export const getPerformanceSettings = () => settings;
+
+export const subscribePerformanceSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const commit = (next: PerformanceSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Performance settings not persisted:', err);
+  }
+  listeners.forEach(l => l());
+};
+
+export const updatePerformanceSettings = (patch: Partial<PerformanceSettings>) => commit(sanitize({ ...settings, ...patch }));
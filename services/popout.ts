@@ -0,0 +1,133 @@
+// Detaches the render canvas into a floating window. Document Picture-in-Picture moves the live canvas itself
+// (so the grid re-lays out to the window); video PiP shows a captureStream of it instead.
+
+export type PopoutKind = 'document' | 'video';
+
+export interface Popout {
+  readonly kind: PopoutKind;
+  close: () => void;
+}
+
+interface PopoutCallbacks {
+  // The popout went away on its own (window closed by the user)
+  onClose: () => void;
+  // Video PiP only: the floating window changed size, in CSS pixels
+  onResize?: (width: number, height: number) => void;
+}
+
+// Not yet in lib.dom
+interface DocumentPictureInPicture {
+  requestWindow: (options?: { width?: number; height?: number }) => Promise<Window>;
+}
+
+const documentPiP = (): DocumentPictureInPicture | undefined => (window as any).documentPictureInPicture;
+
+export const isDocumentPopoutSupported = () => !!documentPiP();
+
+export const isVideoPopoutSupported = () =>
+  !!document.pictureInPictureEnabled && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+export const isPopoutSupported = () => isDocumentPopoutSupported() || isVideoPopoutSupported();
+
+// Same-origin sheets are inlined; cross-origin ones (fonts) are re-linked
+const copyStyles = (target: Document) => {
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      const style = target.createElement('style');
+      style.textContent = Array.from(sheet.cssRules, rule => rule.cssText).join('\n');
+      target.head.appendChild(style);
+    } catch {
+      if (!sheet.href) continue;
+      const link = target.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = sheet.href;
+      target.head.appendChild(link);
+    }
+  }
+};
+
+const openDocumentPopout = async (canvas: HTMLCanvasElement, { onClose }: PopoutCallbacks): Promise<Popout> => {
+  const pip = await documentPiP()!.requestWindow({
+    width: Math.round(canvas.clientWidth / 2) || 480,
+    height: Math.round(canvas.clientHeight / 2) || 270
+  });
+  copyStyles(pip.document);
+  pip.document.body.style.cssText = 'margin:0;background:#000;overflow:hidden;height:100vh;';
+
+  const parent = canvas.parentNode;
+  const nextSibling = canvas.nextSibling;
+  const inlineStyle = canvas.style.cssText;
+  canvas.style.cssText = `${inlineStyle};width:100vw;height:100vh;min-height:0;`;
+  pip.document.body.appendChild(canvas);
+
+  let restored = false;
+  const restore = () => {
+    if (restored) return;
+    restored = true;
+    canvas.style.cssText = inlineStyle;
+    parent?.insertBefore(canvas, nextSibling);
+  };
+
+  pip.addEventListener('pagehide', () => {
+    restore();
+    onClose();
+  }, { once: true });
+
+  return {
+    kind: 'document',
+    close: () => {
+      restore();
+      pip.close();
+    }
+  };
+};
+
+const openVideoPopout = async (canvas: HTMLCanvasElement, { onClose, onResize }: PopoutCallbacks): Promise<Popout> => {
+  const stream = canvas.captureStream(30);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+
+  let closed = false;
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    stream.getTracks().forEach(t => t.stop());
+    video.srcObject = null;
+  };
+
+  let pipWindow: PictureInPictureWindow;
+  try {
+    pipWindow = await video.requestPictureInPicture();
+  } catch (err) {
+    cleanup();
+    throw err;
+  }
+
+  const handleResize = () => onResize?.(pipWindow.width, pipWindow.height);
+  pipWindow.addEventListener('resize', handleResize);
+  handleResize();
+
+  video.addEventListener('leavepictureinpicture', () => {
+    pipWindow.removeEventListener('resize', handleResize);
+    cleanup();
+    onClose();
+  }, { once: true });
+
+  return {
+    kind: 'video',
+    close: () => {
+      if (document.pictureInPictureElement === video) document.exitPictureInPicture().catch(() => {});
+      else cleanup();
+    }
+  };
+};
+
+// Must be called from a user gesture
+export const openPopout = (canvas: HTMLCanvasElement, callbacks: PopoutCallbacks): Promise<Popout> => {
+  if (isDocumentPopoutSupported()) return openDocumentPopout(canvas, callbacks);
+  if (isVideoPopoutSupported()) return openVideoPopout(canvas, callbacks);
+  return Promise.reject(new Error('Picture-in-Picture is not supported in this browser'));
+};
@@ -0,0 +1,72 @@
+import { DEFAULT_PROMPT_TEMPLATE, PROVIDERS, ProviderConfig, ProviderId } from './visionProviders';
+
+export interface ProviderSettings {
+  active: ProviderId;
+  configs: Record<ProviderId, ProviderConfig>;
+  promptTemplate: string;
+  maxWords: number;
+  // Audits ask for JSON with labelled bounding boxes, drawn over the view
+  structured: boolean;
+}
+
+const STORAGE_KEY = 'sightos.providers';
+
+const defaults = (): ProviderSettings => ({
+  active: 'gemini',
+  configs: Object.fromEntries(PROVIDERS.map(p => [p.id, { ...p.defaults }])) as Record<ProviderId, ProviderConfig>,
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  maxWords: 40,
+  structured: false
+});
+
+// Stored values are merged over defaults so new fields survive old saves
+const load = (): ProviderSettings => {
+  const base = defaults();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return base;
+    const saved = JSON.parse(raw) as Partial<ProviderSettings>;
+    const configs = { ...base.configs };
+    for (const p of PROVIDERS) {
+      configs[p.id] = { ...base.configs[p.id], ...saved.configs?.[p.id] };
+      // Older saves copied the build-time key; drop it so the provider follows the deployed one
+      if (p.envApiKey && configs[p.id].apiKey === p.envApiKey) configs[p.id].apiKey = '';
+    }
+    return {
+      ...base,
+      ...saved,
+      active: PROVIDERS.some(p => p.id === saved.active) ? saved.active! : base.active,
+      configs
+    };
+  } catch {
+    return base;
+  }
+};
+
+let settings: ProviderSettings = load();
+const listeners = new Set<() => void>();
+
+export const getProviderSettings = () => settings;
+
+export const subscribeProviderSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const commit = (next: ProviderSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Provider settings not persisted:', err);
+  }
+  listeners.forEach(l => l());
+};
+
+export const updateProviderSettings = (patch: Partial<Omit<ProviderSettings, 'configs'>>) =>
+  commit({ ...settings, ...patch });
+
+export const updateProviderConfig = (id: ProviderId, patch: Partial<ProviderConfig>) =>
+  commit({ ...settings, configs: { ...settings.configs, [id]: { ...settings.configs[id], ...patch } } });
+
+export const resetProviderSettings = () => commit(defaults());
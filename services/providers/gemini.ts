@@ -0,0 +1,51 @@
+import { GoogleGenAI } from "@google/genai";
+import type { VisionProvider } from '../visionProviders';
+
+// Baked in at build time; used when the user has not entered a key, and never stored with the settings
+const ENV_API_KEY = process.env.API_KEY || '';
+
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  envApiKey: ENV_API_KEY,
+  structured: true,
+  defaults: {
+    baseUrl: '',
+    model: 'gemini-3-flash-preview',
+    apiKey: '',
+    temperature: 0.7,
+    maxTokens: 150
+  },
+  chat: async ({ turns, config, json, signal, onText }) => {
+    const ai = new GoogleGenAI({
+      apiKey: config.apiKey || ENV_API_KEY,
+      httpOptions: config.baseUrl ? { baseUrl: config.baseUrl } : undefined
+    });
+
+    const stream = await ai.models.generateContentStream({
+      model: config.model,
+      contents: turns.map(turn => ({
+        role: turn.role,
+        parts: [
+          ...(turn.image ? [{ inlineData: { mimeType: turn.image.mimeType, data: turn.image.data } }] : []),
+          { text: turn.text }
+        ]
+      })),
+      config: {
+        maxOutputTokens: config.maxTokens,
+        temperature: config.temperature,
+        responseMimeType: json ? 'application/json' : undefined,
+        abortSignal: signal
+      }
+    });
+
+    let text = '';
+    for await (const chunk of stream) {
+      const piece = chunk.text;
+      if (!piece) continue;
+      text += piece;
+      onText?.(piece);
+    }
+    return text;
+  }
+};
@@ -0,0 +1,20 @@
+import type { VisionProvider } from '../visionProviders';
+
+// Fully offline: returns the on-device scene report for the latest frame, no network involved.
+// It cannot read the question, so follow-ups get the same report, and it never marks objects.
+export const localProvider: VisionProvider = {
+  id: 'local',
+  label: 'On-device heuristic',
+  defaults: {
+    baseUrl: '',
+    model: 'scene-analyzer',
+    apiKey: '',
+    temperature: 0,
+    maxTokens: 0
+  },
+  chat: async ({ localReport, onText }) => {
+    if (!localReport) throw new Error('Sensor grid unavailable, no local report');
+    onText?.(localReport);
+    return localReport;
+  }
+};
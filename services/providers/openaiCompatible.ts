@@ -0,0 +1,88 @@
+import type { VisionProvider } from '../visionProviders';
+
+// Any server exposing POST /v1/chat/completions with image_url content parts (llama.cpp server, Ollama, vLLM, ...)
+export const openAICompatibleProvider: VisionProvider = {
+  id: 'openai-compatible',
+  label: 'Local (OpenAI-compatible)',
+  structured: true,
+  defaults: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llava',
+    apiKey: '',
+    temperature: 0.7,
+    maxTokens: 150
+  },
+  chat: async ({ turns, config, json, signal, onText }) => {
+    const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: config.model,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+        stream: true,
+        response_format: json ? { type: 'json_object' } : undefined,
+        messages: turns.map(turn => turn.role === 'model'
+          ? { role: 'assistant', content: turn.text }
+          : {
+              role: 'user',
+              content: [
+                { type: 'text', text: turn.text },
+                ...(turn.image ? [{ type: 'image_url', image_url: { url: `data:${turn.image.mimeType};base64,${turn.image.data}` } }] : [])
+              ]
+            })
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status} from ${url}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    // Servers that ignore `stream` answer with a single completion
+    if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content?.trim() || '';
+      if (text) onText?.(text);
+      return text;
+    }
+
+    let text = '';
+    await readEventStream(response.body, (data) => {
+      const piece: string | undefined = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (!piece) return;
+      text += piece;
+      onText?.(piece);
+    });
+    return text.trim();
+  }
+};
+
+// Hands the payload of each `data:` line of a server-sent event stream to `onData`, up to the [DONE] marker
+const readEventStream = async (body: ReadableStream<Uint8Array>, onData: (data: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        if (data) onData(data);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};
@@ -0,0 +1,158 @@
+import type { GridFrame } from '../lib/gridRenderer';
+import { createZip, ZipEntry } from '../lib/zip';
+import { timestampedFilename } from '../lib/download';
+import {
+  encodeFrameBinary,
+  encodeFrameNdjson,
+  encodeHeaderBinary,
+  encodeHeaderNdjson,
+  GRID_RECORDING_VERSION,
+  GridRecordingFormat,
+  sampleGridFrame
+} from '../lib/gridRecording';
+
+export type RecordingKind = 'video' | 'png' | 'ndjson' | 'binary';
+
+export const RECORDING_KINDS: { id: RecordingKind; label: string }[] = [
+  { id: 'video', label: 'WebM video' },
+  { id: 'png', label: 'PNG sequence' },
+  { id: 'ndjson', label: 'Grid data (NDJSON)' },
+  { id: 'binary', label: 'Grid data (binary)' }
+];
+
+export interface RecordingResult {
+  blob: Blob;
+  filename: string;
+}
+
+export interface Recorder {
+  readonly kind: RecordingKind;
+  readonly startedAt: number;
+  // Rendered frames, only used by grid-data recorders
+  capture?: (frame: GridFrame) => void;
+  stop: () => Promise<RecordingResult>;
+}
+
+const FILE_PREFIX = 'sightos';
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const isVideoRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+const startVideoRecorder = (canvas: HTMLCanvasElement, fps: number): Recorder => {
+  if (!isVideoRecordingSupported()) throw new Error('MediaRecorder or canvas.captureStream not supported');
+
+  const stream = canvas.captureStream(fps);
+  const mimeType = VIDEO_MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  // Emit a chunk every second so a crash loses at most one second of footage
+  recorder.start(1000);
+
+  return {
+    kind: 'video',
+    startedAt,
+    stop: () => new Promise((resolve, reject) => {
+      recorder.onstop = () => {
+        stream.getTracks().forEach(t => t.stop());
+        resolve({
+          blob: new Blob(chunks, { type: recorder.mimeType || 'video/webm' }),
+          filename: timestampedFilename(FILE_PREFIX, 'webm', new Date(startedAt))
+        });
+      };
+      recorder.onerror = () => reject(new Error('MediaRecorder failed'));
+      recorder.stop();
+    })
+  };
+};
+
+// Periodic canvas.toBlob captures, zipped on stop
+const startPngRecorder = (canvas: HTMLCanvasElement, fps: number): Recorder => {
+  const startedAt = Date.now();
+  const entries: ZipEntry[] = [];
+  const pending = new Set<Promise<void>>();
+  let frameIndex = 0;
+
+  const grab = () => {
+    const index = frameIndex++;
+    const job = new Promise<void>((resolve) => {
+      canvas.toBlob(async (blob) => {
+        if (blob) {
+          const name = `frame-${String(index).padStart(5, '0')}.png`;
+          entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+        }
+        resolve();
+      }, 'image/png');
+    });
+    pending.add(job);
+    job.then(() => pending.delete(job));
+  };
+
+  grab();
+  const timer = setInterval(grab, 1000 / fps);
+
+  return {
+    kind: 'png',
+    startedAt,
+    stop: async () => {
+      clearInterval(timer);
+      await Promise.all(pending);
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      return {
+        blob: createZip(entries),
+        filename: timestampedFilename(`${FILE_PREFIX}-frames`, 'zip', new Date(startedAt))
+      };
+    }
+  };
+};
+
+const startGridRecorder = (format: GridRecordingFormat, fps: number, cellSize: number, palette?: string): Recorder => {
+  const startedAt = Date.now();
+  const origin = performance.now();
+  const header = { version: GRID_RECORDING_VERSION, cellSize, startedAt, palette };
+  const parts: BlobPart[] = [format === 'ndjson' ? encodeHeaderNdjson(header) : encodeHeaderBinary(header)];
+  const interval = 1000 / fps;
+  let lastCapture = -Infinity;
+
+  return {
+    kind: format,
+    startedAt,
+    capture: (frame) => {
+      const t = performance.now() - origin;
+      if (t - lastCapture < interval) return;
+      lastCapture = t;
+      const sample = sampleGridFrame(frame, t);
+      parts.push(format === 'ndjson' ? encodeFrameNdjson(sample) : encodeFrameBinary(sample));
+    },
+    stop: async () => ({
+      blob: new Blob(parts, { type: format === 'ndjson' ? 'application/x-ndjson' : 'application/octet-stream' }),
+      filename: timestampedFilename(`${FILE_PREFIX}-grid`, format === 'ndjson' ? 'ndjson' : 'sgrd', new Date(startedAt))
+    })
+  };
+};
+
+export interface RecorderOptions {
+  fps?: number;
+  cellSize: number;
+  palette?: string;
+}
+
+const DEFAULT_FPS: Record<RecordingKind, number> = {
+  video: 30,
+  png: 5,
+  ndjson: 15,
+  binary: 15
+};
+
+export const startRecorder = (kind: RecordingKind, canvas: HTMLCanvasElement, options: RecorderOptions): Recorder => {
+  const fps = options.fps || DEFAULT_FPS[kind];
+  switch (kind) {
+    case 'video': return startVideoRecorder(canvas, fps);
+    case 'png': return startPngRecorder(canvas, fps);
+    default: return startGridRecorder(kind, fps, options.cellSize, options.palette);
+  }
+};
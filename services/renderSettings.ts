@@ -0,0 +1,136 @@
+import { DEFAULT_RENDER_PARAMS, RenderParams, sanitizeRenderParams } from '../lib/renderParams';
+
+export interface RenderSettings {
+  params: RenderParams;
+  // Named snapshots of params, keyed by name
+  presets: Record<string, RenderParams>;
+}
+
+// Shape of an exported preset (JSON file or URL hash payload)
+export interface PresetExport {
+  sightos: 'preset';
+  version: number;
+  name: string;
+  params: RenderParams;
+}
+
+const STORAGE_KEY = 'sightos.render';
+const PRESET_VERSION = 1;
+const HASH_KEY = 'preset';
+
+const defaults = (): RenderSettings => ({
+  params: { ...DEFAULT_RENDER_PARAMS },
+  presets: {}
+});
+
+const load = (): RenderSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaults();
+    const saved = JSON.parse(raw) as Partial<RenderSettings>;
+    const presets: Record<string, RenderParams> = {};
+    for (const [name, params] of Object.entries(saved.presets || {})) {
+      presets[name] = sanitizeRenderParams(params);
+    }
+    return { params: sanitizeRenderParams(saved.params), presets };
+  } catch {
+    return defaults();
+  }
+};
+
+let settings: RenderSettings = load();
+const listeners = new Set<() => void>();
+
+export const getRenderSettings = () => settings;
+
+export const subscribeRenderSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const commit = (next: RenderSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Render settings not persisted:', err);
+  }
+  listeners.forEach(l => l());
+};
+
+export const updateRenderParams = (patch: Partial<RenderParams>) =>
+  commit({ ...settings, params: sanitizeRenderParams({ ...settings.params, ...patch }) });
+
+export const resetRenderParams = () => commit({ ...settings, params: { ...DEFAULT_RENDER_PARAMS } });
+
+export const savePreset = (name: string, params: RenderParams = settings.params) =>
+  commit({ ...settings, presets: { ...settings.presets, [name]: { ...params } } });
+
+export const deletePreset = (name: string) => {
+  const { [name]: _removed, ...presets } = settings.presets;
+  commit({ ...settings, presets });
+};
+
+export const applyPreset = (name: string) => {
+  const preset = settings.presets[name];
+  if (preset) commit({ ...settings, params: { ...preset } });
+};
+
+export const exportPreset = (name: string, params: RenderParams = settings.params): PresetExport => ({
+  sightos: 'preset',
+  version: PRESET_VERSION,
+  name,
+  params: { ...params }
+});
+
+// Throws on anything that is not a Sight_OS preset; field values are clamped rather than rejected
+export const parsePreset = (data: unknown): PresetExport => {
+  const candidate = (typeof data === 'string' ? JSON.parse(data) : data) as Partial<PresetExport> | null;
+  if (!candidate || candidate.sightos !== 'preset' || typeof candidate.params !== 'object') {
+    throw new Error('Not a Sight_OS preset');
+  }
+  return {
+    sightos: 'preset',
+    version: PRESET_VERSION,
+    name: String(candidate.name || 'Imported').slice(0, 64),
+    params: sanitizeRenderParams(candidate.params)
+  };
+};
+
+const sameParams = (a: RenderParams, b: RenderParams) =>
+  (Object.keys(a) as (keyof RenderParams)[]).every(key => a[key] === b[key]);
+
+// Stores the preset and makes it active; returns the name it was stored under. A different preset that already
+// has the name is kept, and the import gets a numbered name instead.
+export const importPreset = (preset: PresetExport) => {
+  let name = preset.name;
+  for (let n = 2; settings.presets[name] && !sameParams(settings.presets[name], preset.params); n++) {
+    name = `${preset.name} (${n})`;
+  }
+  commit({ params: { ...preset.params }, presets: { ...settings.presets, [name]: { ...preset.params } } });
+  return name;
+};
+
+// base64url so the payload survives being pasted into chat clients
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+};
+
+export const presetShareUrl = (preset: PresetExport, base: string = location.href) => {
+  const url = new URL(base);
+  url.hash = `${HASH_KEY}=${toBase64Url(JSON.stringify(preset))}`;
+  return url.toString();
+};
+
+// Returns null when the hash carries no preset; throws when it carries a malformed one
+export const presetFromHash = (hash: string = location.hash): PresetExport | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const payload = params.get(HASH_KEY);
+  if (!payload) return null;
+  return parsePreset(fromBase64Url(payload));
+};
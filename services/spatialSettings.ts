@@ -0,0 +1,42 @@
+import { DEFAULT_SPATIAL_OPTIONS, SpatialOptions } from '../lib/heightField';
+
+const STORAGE_KEY = 'sightos.spatial';
+
+export const MAX_RELIEF = 1;
+
+const sanitize = (raw: any): SpatialOptions => ({
+  depth: raw?.depth === 'edges' ? 'edges' : 'luma',
+  style: raw?.style === 'glyphs' ? 'glyphs' : 'wireframe',
+  relief: Number.isFinite(raw?.relief) ? Math.max(0, Math.min(MAX_RELIEF, raw.relief)) : DEFAULT_SPATIAL_OPTIONS.relief
+});
+
+const load = (): SpatialOptions => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitize(JSON.parse(raw)) : DEFAULT_SPATIAL_OPTIONS;
+  } catch {
+    return DEFAULT_SPATIAL_OPTIONS;
+  }
+};
+
+let options: SpatialOptions = load();
+const listeners = new Set<() => void>();
+
+export const getSpatialOptions = () => options;
+
+export const subscribeSpatialOptions = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const commit = (next: SpatialOptions) => {
+  options = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Spatial view settings not persisted:', err);
+  }
+  listeners.forEach(l => l());
+};
+
+export const updateSpatialOptions = (patch: Partial<SpatialOptions>) => commit(sanitize({ ...options, ...patch }));
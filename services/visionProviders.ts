@@ -0,0 +1,81 @@
+import { geminiProvider } from './providers/gemini';
+import { openAICompatibleProvider } from './providers/openaiCompatible';
+import { localProvider } from './providers/local';
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'local';
+
+export interface ProviderConfig {
+  // Empty string means the provider's own default endpoint
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+// One message of an audit conversation. User turns may carry a frame, as base64 without the data: prefix.
+export interface VisionTurn {
+  role: 'user' | 'model';
+  text: string;
+  image?: { data: string; mimeType: string };
+}
+
+export interface VisionRequest {
+  // The whole conversation so far, ending with the user turn to answer
+  turns: VisionTurn[];
+  config: ProviderConfig;
+  // Ask for a JSON reply; backends that can constrain their output do
+  json?: boolean;
+  // On-device scene report for the latest frame, when the sensor grid was available
+  localReport?: string;
+  signal?: AbortSignal;
+  // Called with each piece of the reply as it streams in
+  onText?: (chunk: string) => void;
+}
+
+export interface VisionProvider {
+  id: ProviderId;
+  label: string;
+  defaults: ProviderConfig;
+  // Build-time key the provider falls back to when `apiKey` is empty
+  envApiKey?: string;
+  // Can answer structured audits (JSON with box_2d objects); others always get the plain prompt
+  structured?: boolean;
+  // Resolves with the complete reply once the stream ends
+  chat: (request: VisionRequest) => Promise<string>;
+}
+
+export const PROVIDERS: VisionProvider[] = [geminiProvider, openAICompatibleProvider, localProvider];
+
+export const getProvider = (id: ProviderId): VisionProvider =>
+  PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+export const DEFAULT_PROMPT_TEMPLATE = `
+You are the tactical AI of a Matrix runner.
+Analyze the incoming video feed (spatial mapping).
+Identify objects, people, or threats in the visual field.
+Provide a tactical assessment log.
+Style: Cyberpunk, machine-code style, cryptic but informative.
+Max {{maxWords}} words.
+{{context}}
+`.trim();
+
+// Follow-up questions in an audit session
+export const FOLLOW_UP_TEMPLATE = `
+{{question}}
+Answer in at most {{maxWords}} words.
+`.trim();
+
+// Appended to every user turn in structured mode. Boxes use Gemini's native [ymin, xmin, ymax, xmax] on a 0–1000 scale.
+export const STRUCTURED_OUTPUT_PROMPT = `
+Respond with JSON only, no prose and no code fences, in this shape:
+{"summary": "<assessment, at most {{maxWords}} words>", "objects": [{"label": "<what it is>", "box_2d": [ymin, xmin, ymax, xmax]}]}
+Box coordinates are integers from 0 to 1000 relative to the image. List at most 12 objects.
+`.trim();
+
+// Replaces {{name}} placeholders; unknown placeholders render empty
+export const renderPrompt = (template: string, vars: Record<string, string | number | undefined>) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => {
+    const value = vars[name];
+    return value === undefined ? '' : String(value);
+  }).trim();
@@ -1,8 +1,14 @@
 export interface LogEntry {
   id: string;
+  // ms since epoch; `timestamp` is the display form
+  time: number;
   timestamp: string;
   message: string;
-  type: 'system' | 'analysis' | 'error' | 'input';
+  type: 'system' | 'analysis' | 'override' | 'error' | 'input' | 'motion';
+  // Pinned entries are kept when older entries are evicted or the log is cleared
+  pinned?: boolean;
+  // The frame an audit entry was produced from, see services/logStore
+  snapshotId?: string;
 }
 
 export enum MapMode {
@@ -10,3 +16,6 @@ export enum MapMode {
   SCANNING = 'SCANNING',
   ANALYZING = 'ANALYZING',
 }
+
+// Flat glyph grid, or the grid as a 3D height field (lib/heightField.ts)
+export type ViewMode = 'flat' | 'spatial';